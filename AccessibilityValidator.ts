@@ -53,14 +53,20 @@ interface AxeInapplicable {
     nodes: AxeNode[];
 }
 
+// Selector for one frame level: a CSS selector, or a path of selectors through shadow roots
+type AxeSelector = string | string[];
+
 interface AxeNode {
     any: AxeCheckResult[];
     all: AxeCheckResult[];
     none: AxeCheckResult[];
     impact?: 'minor' | 'moderate' | 'serious' | 'critical';
     html: string;
-    target: string[];
+    /** One selector per frame level; all but the last select an iframe */
+    target: AxeSelector[];
     failureSummary?: string;
+    /** The failing element itself (set by axe's `elementRef` option; missing for nodes in frames) */
+    element?: Element;
 }
 
 interface AxeCheckResult {
@@ -72,8 +78,9 @@ interface AxeCheckResult {
 }
 
 interface AxeRelatedNode {
-    target: string[];
+    target: AxeSelector[];
     html: string;
+    element?: Element;
 }
 
 interface AxeRunOptions {
@@ -86,13 +93,24 @@ interface AxeRunOptions {
     include?: string[][];
     exclude?: string[][];
     iframes?: boolean;
+    elementRef?: boolean;
+}
+
+// Axe run context (element references to include/exclude from a run)
+interface AxeContext {
+    include: Array<Element | Document>;
+    exclude?: Element[];
 }
 
 // Axe global interface (type for imported axe-core)
 interface AxeCore {
-    run(context?: Element | Document | string, options?: AxeRunOptions): Promise<AxeResults>;
+    run(context?: Element | Document | string | AxeContext, options?: AxeRunOptions): Promise<AxeResults>;
     configure(config: any): void;
     getRules(): any[];
+    reset(): void;
+    /** axe's internal audit; getRules() doesn't say which rules are off by default, and the
+     * English messages are only kept here */
+    _audit?: { rules: Array<{ id: string; enabled?: boolean; tags: string[] }>; _defaultLocale?: AxeLocale | null };
 }
 
 // Configuration interface for the accessibility validator
@@ -102,38 +120,76 @@ interface AccessibilityValidatorConfig {
     
     /** 
      * Axe-core rules to run (optional)
-     * - Empty array or undefined = run ALL rules
-     * - Specific rule IDs = run only those rules
-     * - Cannot be used with axeTags
+     * - Empty array or undefined = run ALL rules (unless `axeTags` or `preset` are set)
+     * - Specific rule IDs = run those rules, plus any selected by `axeTags` and `preset`
      */
     axeRules?: string[];
     
     /** 
-     * Axe-core tags to run (optional, alternative to axeRules)
+     * Axe-core tags to run (optional)
      * - Common tags: 'wcag2a', 'wcag2aa', 'wcag2aaa', 'section508', 'best-practice'
-     * - Cannot be used with axeRules
+     * - Combined with `axeRules` and `preset`
      */
     axeTags?: string[];
+
+    /** Named compliance target(s) to run, e.g. 'wcag21aa' or ['wcag22aa', 'content-editor']
+     * (optional). Presets are combined with `axeRules` and `axeTags`. */
+    preset?: PresetName | PresetName[];
+
+    /** Rules to run in addition to the selected rules, tags and presets (optional) */
+    includeRules?: string[];
+
+    /** Rules never to run, whatever else selects them (optional) */
+    excludeRules?: string[];
+
+    /** Rule selections for widgets matching a selector instead of the page-wide one (optional).
+     * The first matching profile wins; a profile without its own rules, tags or preset
+     * starts from the page-wide selection. */
+    ruleProfiles?: RuleProfile[];
     
     /** Debounce delay in milliseconds (optional, defaults to 300) */
     debounceDelay?: number;
     
     /** Enable MutationObserver for real-time updates (optional, defaults to true) */
     enableMutationObserver?: boolean;
+
+    /** Attributes whose changes mark a widget dirty; a trailing `*` matches a prefix, e.g. 'aria-*'
+     * (optional, defaults to ARIA, `role`, `hidden`, `tabindex`, `lang`, `style`, image/link and form attributes) */
+    observedAttributes?: string[];
+
+    /** Recheck widgets when their text changes (optional, defaults to true) */
+    observeCharacterData?: boolean;
+
+    /** Find widgets in open shadow roots and watch shadow roots in and around widgets for changes
+     * (optional, defaults to true) */
+    shadowDom?: boolean;
+
+    /** Audit same-origin iframes inside widgets and attribute their issues to the widget
+     * (optional, defaults to true). axe is loaded into those frames before each run;
+     * cross-origin frames are reported by axe's `frame-tested` check instead. */
+    iframes?: boolean;
     
     /** Maximum retry attempts for axe failures (optional, defaults to 1) */
     maxRetries?: number;
+
+    /** Widgets audited and rendered per idle-time chunk (optional, defaults to 5). In 'document'
+     * scope only rendering is chunked: axe still audits the whole document in one run. */
+    batchSize?: number;
+
+    /** Longest wait in milliseconds for an idle period before a chunk runs anyway (optional, defaults to 500) */
+    idleTimeout?: number;
     
     /** Custom CSS class names for UI elements (optional) */
     uiClasses?: Partial<UIClasses>;
     
-    /** CMS-specific event names to listen for (optional) */
+    /** CMS-specific event names to listen for (optional, defaults to the CMS adapter's events) */
     cmsEvents?: string[];
     
     /** Custom CSS styles (optional, will merge with defaults) */
     customCSS?: string;
     
-    /** Enable debug logging (optional, defaults to dev environment detection) */
+    /** Enable debug logging (optional, defaults to true on localhost or with a `wa11y-debug`
+     * query parameter / localStorage flag) */
     enableDebugLogging?: boolean;
     
     /** Include incomplete results as violations (optional, defaults to true for color-contrast)
@@ -147,12 +203,643 @@ interface AccessibilityValidatorConfig {
      * - Background images (can't analyze image colors)
      * - Complex CSS layouts or pseudo-elements */
     includeIncomplete?: boolean | string[];
+
+    /** Lowest impact shown on badges (optional, defaults to 'minor'). Lower-impact issues are
+     * still reported under `belowMinImpact`. */
+    minImpact?: Impact;
+
+    /** Impact to use for specific rules instead of axe's, e.g. `{ 'region': 'minor' }` (optional) */
+    impactOverrides?: Record<string, Impact>;
+
+    /** Issue budgets deciding whether a widget passes, warns or fails (optional, defaults to
+     * failing on any serious or critical issue and warning on any other issue) */
+    qualityGates?: QualityGate[];
+
+    /** Audit scope (optional, defaults to 'document')
+     * - `'document'`: Run axe over the whole document and map results back to widgets
+     * - `'widget'`: Run axe only over widgets that changed since the last run (via the
+     *   MutationObserver or a CMS event); untouched widgets keep their cached results */
+    auditScope?: AuditScope;
+
+    /** Which widgets an issue in nested widgets counts towards (optional, defaults to 'innermost')
+     * - `'innermost'`: Only the innermost widget around the failing element
+     * - `'all'`: Every widget around the failing element */
+    nestedWidgets?: NestedWidgets;
+
+    /** Format used by the popup's download button (optional, defaults to 'html') */
+    exportFormat?: ExportFormat;
+
+    /** Where SARIF exports locate pages (optional, defaults to URLs relative to the page's origin) */
+    sarifOptions?: SarifOptions;
+
+    /** Show a floating page-level summary panel listing every widget (optional, defaults to false) */
+    enableSummaryPanel?: boolean;
+
+    /** Initial dock position of the summary panel (optional, defaults to 'right') */
+    summaryPanelDock?: PanelDock;
+
+    /** Where the validator UI is rendered (optional, defaults to 'inline')
+     * - `'inline'`: Badges and popups are appended to the widget, which gets the outline class
+     * - `'shadow'`: Badges, popups and outlines live in a shadow root overlay positioned over
+     *   each widget, so site CSS can't reach them and the widget's own DOM and styles are
+     *   left untouched. `uiClasses` and `customCSS` still apply inside the shadow root.
+     * - `'none'`: No UI at all (no CSS, badges, panel or announcements); results are only
+     *   available through the results API and events, e.g. for headless audits */
+    renderMode?: RenderMode;
+
+    /** Known/accepted issues to exclude from badges (optional). Suppressed issues are still
+     * listed under `suppressed` in the results. */
+    suppressions?: Suppression[];
+
+    /** URL of a JSON baseline file (`{ "suppressions": [...] }`) loaded on start (optional) */
+    baselineUrl?: string;
+
+    /** localStorage key for suppressions added at runtime or loaded from a baseline
+     * (optional, defaults to 'wa11y-suppressions'; `false` disables persistence) */
+    suppressionStorageKey?: string | false;
+
+    /** Organization-specific rules registered with axe on start (optional, see `registerRule()`) */
+    customRules?: CustomRule[];
+
+    /** CMS integration (optional, defaults to 'sitefinity')
+     * - `'sitefinity'`: Sitefinity events and editor detection; widget discovery with `discoverWidgets`
+     * - `'data-attribute'`: Generic adapter for widgets marked with data attributes
+     * - `'none'`: No CMS integration
+     * - `CmsAdapter`: A custom adapter object */
+    cmsAdapter?: CmsAdapterName | CmsAdapter;
+
+    /** Options for the built-in adapter selected by `cmsAdapter` (optional) */
+    cmsAdapterOptions?: CmsAdapterOptions;
+
+    /** Check the page when the editor publishes (optional, defaults to false). Clicks on the
+     * CMS publish controls are held until a fresh audit passes; if widgets fail their quality
+     * gates, a dialog lists the blocking issues and the editor must fix them or acknowledge
+     * them with a reason. `true` uses the default options. */
+    publishGuard?: boolean | PublishGuardOptions;
+
+    /** When the validator starts (optional, defaults to 'always')
+     * - `'always'`: Start as soon as it's constructed
+     * - `ActivationPolicy`: Start only when one of the policy's conditions is met, so the
+     *   bundle can be shipped on production pages */
+    activation?: 'always' | ActivationPolicy;
+
+    /** Keyboard shortcut toggling the overlay on/off, e.g. 'Alt+Shift+A' (optional, defaults to
+     * 'Alt+Shift+A'; `false` disables it) */
+    toggleShortcut?: string | false;
+
+    /** Show a floating button toggling the overlay on/off (optional, defaults to false) */
+    showToggleButton?: boolean;
+
+    /** Language of the validator UI, e.g. 'fr' or 'fr-CA' (optional, defaults to 'en'). Built-in
+     * catalogs: 'en' and 'fr'; regional locales fall back to their language, then to English. */
+    locale?: string;
+
+    /** axe-core locale translating rule help and check messages, e.g. the contents of
+     * `axe-core/locales/fr.json` (optional, defaults to axe's English) */
+    axeLocale?: AxeLocale;
+
+    /** Custom translations by locale: UI strings and rule text, e.g. for custom rules (optional) */
+    translations?: Record<string, LocaleTranslations>;
+
+    /** What popups show first (optional, defaults to 'editor'); editors can switch in the popup
+     * - `'editor'`: Plain-language guidance and steps to fix the issue in the CMS, with axe's help text
+     * - `'developer'`: axe's technical details: HTML snippets, failure summaries and checks */
+    guidanceView?: GuidanceView;
+
+    /** Editor guidance by rule id, replacing the built-in guidance in every locale (optional).
+     * `false` removes a rule's guidance. */
+    guidance?: Record<string, RuleGuidance | false>;
+
+    /** Keep a summary of each run per page, and show the trend in the summary panel (optional, defaults to false)
+     * - `'localStorage'`: History in localStorage, one key per page
+     * - `'indexedDB'`: History in an IndexedDB database, for longer histories
+     * - `HistoryStore`: A custom store, e.g. one that sends history to a server
+     * - `false`: No history */
+    history?: HistoryStoreName | HistoryStore | false;
+
+    /** Options for the history (optional) */
+    historyOptions?: HistoryOptions;
+}
+
+// Conditions under which the validator activates; any one that passes is enough
+interface ActivationPolicy {
+    /** Activate in the CMS editor or preview, as detected by the CMS adapter (defaults to true) */
+    editorMode?: boolean;
+    /** Query parameter that activates the validator, e.g. `?wa11y` (defaults to 'wa11y'; `false` disables) */
+    queryParam?: string | false;
+    /** Cookie that activates the validator (defaults to 'wa11y'; `false` disables) */
+    cookie?: string | false;
+    /** localStorage key that activates the validator (defaults to 'wa11y-enabled'; `false` disables) */
+    storageKey?: string | false;
+    /** Custom check, e.g. for a user role flag rendered by the CMS (optional) */
+    roleCheck?: () => boolean;
+}
+
+type CmsAdapterName = 'sitefinity' | 'data-attribute' | 'none';
+
+type CmsAdapterOptions = SitefinityAdapterOptions | DataAttributeAdapterOptions;
+
+// Integration point between the validator and a CMS
+interface CmsAdapter {
+    /** Adapter name, for logging */
+    readonly name: string;
+    /** Events (dispatched on or bubbling to document) that signal content changes */
+    readonly events: string[];
+    /** Selectors for widgets the CMS knows about, validated in addition to `widgetSelectors` */
+    getWidgetSelectors(): string[];
+    /** Describe a widget the way the editor sees it, or null to use the default label */
+    getWidgetInfo(widget: Element): WidgetInfo | null;
+    /** Widgets a change event refers to; an empty array rechecks every widget */
+    getEventWidgets(event: Event): Element[];
+    /** Whether the page is open in the CMS editor or preview */
+    isEditorMode(): boolean;
+    /** Selector for the editor's publish controls, used by the publish guard (optional) */
+    getPublishSelector?(): string | null;
+}
+
+// Sitefinity adapter: attribute names used by the page editor to mark up widgets and placeholders
+interface SitefinityAdapterOptions {
+    /** Validate every widget wrapper in the editor markup (defaults to false) */
+    discoverWidgets?: boolean;
+    /** Attribute holding the widget type name (defaults to 'data-sfname') */
+    nameAttribute?: string;
+    /** Attribute holding the widget title shown in the editor (defaults to 'data-sftitle') */
+    titleAttribute?: string;
+    /** Attribute holding the widget id (defaults to 'data-sfid') */
+    idAttribute?: string;
+    /** Attribute holding the placeholder name on placeholder containers (defaults to 'data-sfcontainer') */
+    placeholderAttribute?: string;
+    /** Publish controls in the page editor (defaults to '[data-sf-action="publish"]') */
+    publishSelector?: string;
+    /** Change events (defaults to the `sf:*` editor events) */
+    events?: string[];
+}
+
+// Data-attribute adapter: attribute names used to mark up widgets
+interface DataAttributeAdapterOptions {
+    /** Attribute marking a widget; its value is the widget type (defaults to 'data-widget') */
+    widgetAttribute?: string;
+    /** Attribute holding the widget label (defaults to 'data-widget-label') */
+    labelAttribute?: string;
+    /** Attribute holding the widget id used in event details (defaults to 'data-widget-id') */
+    idAttribute?: string;
+    /** Attribute on <html> or <body> marking editor mode (defaults to 'data-cms-editor') */
+    editorAttribute?: string;
+    /** Attribute marking publish controls (defaults to 'data-cms-publish') */
+    publishAttribute?: string;
+    /** Change events (defaults to ['cms:change']) */
+    events?: string[];
+}
+
+interface PublishGuardOptions {
+    /** Publish/save controls to intercept (defaults to the CMS adapter's publish selector) */
+    selector?: string;
+    /** Gate status that blocks publishing (defaults to 'fail') */
+    blockOn?: 'fail' | 'warn';
+    /** Let editors publish anyway by giving a reason (defaults to true); false requires a fix */
+    allowAcknowledge?: boolean;
+}
+
+// Blocking issues an editor chose to publish with, and why
+interface PublishAcknowledgment {
+    reason: string;
+    acknowledgedAt: number;
+    url: string;
+    issues: Array<{ widget: string; ruleId: string; impact: Impact; fingerprint: string }>;
+}
+
+interface PublishDecision {
+    /** Whether publishing may go ahead */
+    proceed: boolean;
+    report: ValidationReport;
+    acknowledgment?: PublishAcknowledgment;
+}
+
+type HistoryStoreName = 'localStorage' | 'indexedDB';
+
+interface HistoryOptions {
+    /** Key the current page's history is stored under (defaults to the URL without query and hash) */
+    pageKey?: () => string;
+    /** Runs kept per page; the oldest are dropped (defaults to 100) */
+    maxEntries?: number;
+    /** Runs less than this many ms after the last recorded one replace it, so an editing session
+     * adds one entry (defaults to 300000, five minutes; 0 records every run) */
+    minInterval?: number;
+    /** localStorage key prefix, or IndexedDB database name (defaults to 'wa11y-history') */
+    storageName?: string;
+}
+
+// Where history is kept; the built-in stores are LocalStorageHistoryStore and IndexedDBHistoryStore
+interface HistoryStore {
+    /** Runs recorded for a page, oldest first */
+    load(page: string): Promise<HistoryEntry[]>;
+    /** Replace the runs recorded for a page */
+    save(page: string, entries: HistoryEntry[]): Promise<void>;
+    /** Forget a page's history */
+    clear(page: string): Promise<void>;
+}
+
+// Summary of one run, as kept in the history
+interface HistoryEntry {
+    /** Key of the page the run was recorded for */
+    page: string;
+    recordedAt: number;
+    scope: AuditScope;
+    widgets: number;
+    widgetsWithIssues: number;
+    /** Issues (failing nodes) shown on badges, in total and by impact */
+    issues: number;
+    byImpact: Record<Impact, number>;
+    suppressed: number;
+    pageIssues: number;
+    gate: GateStatus;
+    /** Fingerprints of the issues shown on badges */
+    fingerprints: string[];
+    /** Hashed issue keys (rule id + HTML) of the same issues, in the same order. Unlike
+     * fingerprints they survive axe picking another selector, so runs are compared by key. */
+    keys: string[];
+}
+
+interface HistoryQuery {
+    /** Page key (optional, defaults to the current page) */
+    page?: string;
+    /** Only runs recorded at or after this time, in ms since epoch (optional) */
+    since?: number;
+    /** Only runs recorded at or before this time, in ms since epoch (optional) */
+    until?: number;
+    /** Only the most recent runs (optional) */
+    limit?: number;
+}
+
+// Progress between the first and the latest of a page's runs
+interface HistoryTrend {
+    page: string;
+    runs: number;
+    first: HistoryEntry | null;
+    latest: HistoryEntry | null;
+    /** Change in issues from the first run to the latest; negative means fewer issues */
+    change: number;
+    /** Fingerprints of issues in the first run that are gone in the latest */
+    fixed: string[];
+    /** Fingerprints of issues in the latest run that weren't in the first */
+    introduced: string[];
+}
+
+// How a widget is identified in reports and UI
+interface WidgetInfo {
+    /** Name the editor sees */
+    label: string;
+    /** Widget type (e.g. the Sitefinity widget name) */
+    type?: string;
+    /** CMS id of the widget */
+    cmsId?: string;
+    /** Placeholder the widget lives in */
+    placeholder?: string;
+}
+
+// An organization-specific check that runs through axe alongside the built-in rules
+interface CustomRule {
+    /** Unique rule id (e.g. 'org-hero-h1') */
+    id: string;
+    /** Elements the rule applies to */
+    selector: string;
+    /** Return true when the element passes, false when it fails, undefined when it needs review */
+    evaluate: (element: Element) => boolean | undefined;
+    /** Further narrow the elements the rule applies to (optional) */
+    matches?: (element: Element) => boolean;
+    /** Short help text shown in badges and reports */
+    help: string;
+    /** Longer description (optional, defaults to `help`) */
+    description?: string;
+    /** Link for "learn more" (optional) */
+    helpUrl?: string;
+    /** Impact of a failure (optional, defaults to 'serious') */
+    impact?: Impact;
+    /** Extra tags (optional); 'wa11y-custom' is always added */
+    tags?: string[];
+    /** Per-node failure message (optional, defaults to `help`) */
+    failureMessage?: string;
+}
+
+// A known/accepted issue. Every criterion that is set must match for the issue to be suppressed.
+interface Suppression {
+    /** Rule id (e.g. 'color-contrast') */
+    ruleId?: string;
+    /** CSS selector; nodes matching it or inside a match are suppressed */
+    selector?: string;
+    /** Widget selector; issues in widgets matching it are suppressed */
+    widget?: string;
+    /** Stable fingerprint of rule + node, as reported in `suppressed` / `createBaseline()` */
+    fingerprint?: string;
+    /** Why the issue is accepted (required) */
+    reason: string;
+    /** ISO date after which the suppression no longer applies */
+    expires?: string;
+}
+
+interface BaselineFile {
+    version?: number;
+    suppressions: Suppression[];
+}
+
+interface SuppressedIssue {
+    ruleId: string;
+    violation: AxeViolation;
+    node: AxeNode;
+    fingerprint: string;
+    suppression: Suppression;
+}
+
+// One occurrence of a rule on a node
+interface IssueRef {
+    ruleId: string;
+    fingerprint: string;
+    violation: AxeViolation;
+    node: AxeNode;
+}
+
+// Change in a widget's issues since its previous audit
+interface IssueDiff {
+    added: IssueRef[];
+    /** Issues from the previous audit that are gone (suppressed issues aren't counted as resolved) */
+    resolved: IssueRef[];
+    unchanged: IssueRef[];
+}
+
+type AuditScope = 'document' | 'widget';
+
+type NestedWidgets = 'innermost' | 'all';
+
+type PanelDock = 'left' | 'right' | 'bottom';
+
+type RenderMode = 'inline' | 'shadow' | 'none';
+
+type Impact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+type GateStatus = 'pass' | 'warn' | 'fail';
+
+type PresetName = 'wcag2a' | 'wcag2aa' | 'wcag21aa' | 'wcag22aa' | 'section508' | 'en301549' | 'best-practice' | 'content-editor';
+
+// Axe tags a preset runs, minus rules it drops
+interface RulePreset {
+    tags: string[];
+    excludeRules?: string[];
+}
+
+type RuleSelection = Pick<AccessibilityValidatorConfig, 'axeRules' | 'axeTags' | 'preset' | 'includeRules' | 'excludeRules'>;
+
+// Rule selection for widgets matching a selector
+interface RuleProfile extends RuleSelection {
+    /** Widgets the profile applies to */
+    selector: string;
+}
+
+// Rule ids resolved from the page-wide selection and the profiles; null runs axe's defaults
+interface RulePlan {
+    /** Rule ids for `runOnly`; null runs axe's default rules with `overrides` */
+    run: Set<string> | null;
+    overrides: Record<string, { enabled: boolean }>;
+    page: Set<string> | null;
+    profiles: Array<{ selector: string; rules: Set<string> | null }>;
+}
+
+// A problem found by validateConfig()
+interface ConfigProblem {
+    /** Where the problem is, e.g. 'ruleProfiles[0].preset' */
+    path: string;
+    message: string;
+    /** Errors stop the validator from starting; warnings are logged */
+    severity: 'error' | 'warning';
+    /** Likely intended value, for typos */
+    suggestion?: string;
+}
+
+interface ConfigValidationResult {
+    /** Whether there are no errors (warnings may remain) */
+    valid: boolean;
+    problems: ConfigProblem[];
+}
+
+// CLDR plural categories, as picked by Intl.PluralRules
+type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+// A message with a form per plural category; `other` is used for categories left out
+type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+
+// Validator UI strings. `{name}` placeholders are filled in; plural forms are picked by `{count}`.
+interface UIMessages {
+    badgeIssues: PluralMessage;
+    badgeNew: PluralMessage;
+    badgeLabel: PluralMessage;
+    badgeLabelNew: PluralMessage;
+    badgeLabelFail: string;
+    badgeLabelWarn: string;
+    badgeTitle: string;
+    popupTitle: string;
+    downloadReport: string;
+    close: string;
+    newIssue: string;
+    learnMore: string;
+    fixAny: string;
+    fixAll: string;
+    fixNone: string;
+    highlightElement: string;
+    checkDetails: string;
+    viewLabel: string;
+    viewEditor: string;
+    viewDeveloper: string;
+    guidanceSteps: string;
+    guidanceDeveloper: string;
+    impactMinor: string;
+    impactModerate: string;
+    impactSerious: string;
+    impactCritical: string;
+    announceNewIssues: PluralMessage;
+    panelTitle: string;
+    panelDock: string;
+    panelDockLeft: string;
+    panelDockBottom: string;
+    panelDockRight: string;
+    panelClose: string;
+    panelImpact: string;
+    panelRule: string;
+    panelAllImpacts: string;
+    panelAllRules: string;
+    panelIssues: PluralMessage;
+    panelNoIssues: string;
+    panelNoMatches: string;
+    panelTotals: PluralMessage;
+    panelOutsideWidgets: PluralMessage;
+    panelBlocking: PluralMessage;
+    panelToReview: PluralMessage;
+    panelHistory: string;
+    panelHistoryChange: PluralMessage;
+    panelHistoryRuns: PluralMessage;
+    panelHistoryDetail: string;
+    publishTitle: string;
+    publishIssues: PluralMessage;
+    publishWidgets: PluralMessage;
+    publishDescription: PluralMessage;
+    publishDescriptionAcknowledge: PluralMessage;
+    publishReason: string;
+    publishReview: string;
+    publishCancel: string;
+    publishAnyway: string;
+    publishFailedTitle: string;
+    publishFailed: string;
+    publishFailedAcknowledge: string;
+    toggleLabel: string;
+    toggleTitle: string;
+    reportTitle: string;
+    reportPage: string;
+    reportDate: string;
+    reportStatus: string;
+    reportComplete: string;
+    reportFailed: string;
+    reportWidgets: string;
+    reportWidgetCount: PluralMessage;
+    reportIssues: string;
+    reportIssueCount: PluralMessage;
+    reportSuppressed: string;
+    reportEngine: string;
+    reportPageIssues: string;
+    reportNoIssues: string;
+}
+
+// Text of a rule in one language; for axe rules only `help` and `description` apply
+interface RuleTranslation {
+    help?: string;
+    description?: string;
+    failureMessage?: string;
+}
+
+// Custom translations for one locale
+interface LocaleTranslations {
+    /** UI strings replacing the built-in catalog's */
+    ui?: Partial<UIMessages>;
+    /** Rule text by rule id */
+    rules?: Record<string, RuleTranslation>;
+    /** Editor guidance by rule id, replacing the built-in guidance (`false` removes it) */
+    guidance?: Record<string, RuleGuidance | false>;
+}
+
+// Plain-language help for a rule, shown in the popup's editor view
+interface RuleGuidance {
+    /** What the problem means for visitors, without technical terms */
+    summary: string;
+    /** How to fix it in the CMS, one step per entry (optional) */
+    steps?: string[];
+}
+
+type GuidanceView = 'editor' | 'developer';
+
+// axe-core locale file (axe-core/locales/*.json)
+interface AxeLocale {
+    lang: string;
+    rules?: Record<string, { description?: string; help?: string }>;
+    checks?: Record<string, unknown>;
+    [key: string]: unknown;
+}
+
+// Issue budget; each count is the number of issues allowed at that impact or above
+interface QualityGate {
+    /** Widgets the budget applies to (optional, defaults to every widget) */
+    selector?: string;
+    /** Issues allowed before the widget fails, e.g. `{ serious: 0 }` */
+    fail?: Partial<Record<Impact, number>>;
+    /** Issues allowed before the widget warns */
+    warn?: Partial<Record<Impact, number>>;
+}
+
+interface GateBreach {
+    level: 'warn' | 'fail';
+    impact: Impact;
+    /** Issues at `impact` or above */
+    count: number;
+    allowed: number;
+    /** Selector of the budget that was exceeded, if it was scoped */
+    selector?: string;
+}
+
+interface GateResult {
+    status: GateStatus;
+    breaches: GateBreach[];
 }
 
 // Internal type definitions
 interface WidgetState {
     lastViolationCount: number;
+    /** Issues marked as new on the badge and in the popup */
+    newIssueCount: number;
+    /** Quality gate status the badge was rendered with */
+    gateStatus: GateStatus | null;
     hasUI: boolean;
+    violations: AxeViolation[];
+    report: WidgetReport | null;
+}
+
+// Structured results for a single widget
+interface WidgetReport {
+    element: Element;
+    /** First entry of `widgetSelectors` the widget matches */
+    selector: string;
+    /** Label, type and CMS id of the widget */
+    info: WidgetInfo;
+    /** Issues shown on the badge (includes incomplete results selected by `includeIncomplete`) */
+    violations: AxeViolation[];
+    /** All incomplete results touching the widget */
+    incomplete: AxeIncomplete[];
+    /** Offending nodes inside the widget */
+    nodes: AxeNode[];
+    /** Issues excluded from the badge by a suppression */
+    suppressed: SuppressedIssue[];
+    /** Issues below `minImpact`, not shown on the badge */
+    belowMinImpact: AxeViolation[];
+    /** Quality gate evaluation of the issues shown on the badge */
+    gate: GateResult;
+    /** Change since the widget's previous audit (null on its first audit) */
+    diff: IssueDiff | null;
+    /** Timings in milliseconds: the axe run the widget was part of, and mapping/rendering */
+    timings: { axe: number; render: number };
+    validatedAt: number;
+}
+
+// Structured results for a validation run
+interface ValidationReport {
+    status: 'complete' | 'failed';
+    scope: AuditScope;
+    startedAt: number;
+    duration: number;
+    /** Number of widgets audited by this run (others keep their cached reports) */
+    auditedCount: number;
+    /** Latest report for every widget on the page */
+    widgets: WidgetReport[];
+    /** Issues on elements outside every widget ('document' scope only) */
+    pageIssues: AxeViolation[];
+    totals: {
+        widgets: number;
+        widgetsWithIssues: number;
+        violations: number;
+        incomplete: number;
+        nodes: number;
+        suppressed: number;
+        /** Issues added and resolved since the previous audit of each widget */
+        added: number;
+        resolved: number;
+        /** Failing nodes outside every widget */
+        pageIssues: number;
+    };
+    /** Worst widget gate status, and the number of widgets with each status */
+    gate: { status: GateStatus } & Record<GateStatus, number>;
+    /** Blocking issues editors acknowledged when publishing this page */
+    acknowledgments: PublishAcknowledgment[];
+    error?: unknown;
+}
+
+interface RunFailedDetail {
+    error: unknown;
+    attempts: number;
+    report: ValidationReport;
 }
 
 interface UIClasses {
@@ -160,6 +847,14 @@ interface UIClasses {
     readonly BADGE: string;
     readonly POPUP: string;
     readonly CLOSE: string;
+    readonly EXPORT: string;
+    readonly PANEL: string;
+    readonly HIGHLIGHT: string;
+    readonly LIVE: string;
+    readonly HOST: string;
+    readonly OVERLAY: string;
+    readonly TOGGLE: string;
+    readonly MODAL: string;
 }
 
 interface ViolationSummary {
@@ -169,7 +864,31 @@ interface ViolationSummary {
 }
 
 interface AccessibilityValidatorAPI {
-    recheckAll: () => Promise<void>;
+    recheckAll: () => Promise<ValidationReport>;
+    recheckWidgets: (widgets: Element[]) => Promise<ValidationReport>;
+    getLastReport: () => ValidationReport | null;
+    exportReport: (format: ExportFormat) => ExportedReport;
+    downloadReport: (format?: ExportFormat) => void;
+    toggleSummaryPanel: (show?: boolean) => void;
+    setGuidanceView: (view: GuidanceView) => void;
+    addSuppressions: (suppressions: Suppression[]) => void;
+    removeSuppressions: (predicate: (suppression: Suppression) => boolean) => void;
+    getSuppressions: () => Suppression[];
+    loadBaseline: (source: string | BaselineFile) => Promise<void>;
+    createBaseline: (reason: string) => BaselineFile;
+    registerRule: (rule: CustomRule) => void;
+    unregisterRule: (id: string) => void;
+    getCustomRules: () => CustomRule[];
+    getCmsAdapter: () => CmsAdapter;
+    getObserverStats: () => ObserverStats;
+    guardPublish: () => Promise<PublishDecision>;
+    getAcknowledgments: () => PublishAcknowledgment[];
+    getHistory: (query?: HistoryQuery) => Promise<HistoryEntry[]>;
+    getHistoryTrend: (query?: HistoryQuery) => Promise<HistoryTrend>;
+    clearHistory: (page?: string) => Promise<void>;
+    enable: () => void;
+    disable: () => void;
+    isEnabled: () => boolean;
     debounceRecheck: (delay?: number) => void;
     startWatching: () => void;
     stopWatching: () => void;
@@ -187,534 +906,4388 @@ interface WidgetStateInfo {
     state: WidgetState;
 }
 
+// MutationObserver counters, for debugging what triggers rechecks
+interface ObserverStats {
+    /** Mutation records received */
+    mutations: number;
+    /** Records ignored: the validator's own UI, unobserved attributes or outside any widget */
+    ignored: number;
+    /** Records that marked at least one widget dirty, by mutation type */
+    byType: Record<MutationRecordType, number>;
+    /** Relevant attribute changes, by attribute name */
+    byAttribute: Record<string, number>;
+    /** Times a widget was marked dirty */
+    widgetsMarked: number;
+    /** Rechecks scheduled by the observer */
+    rechecksScheduled: number;
+    /** When the last relevant mutation was seen (ms since epoch) */
+    lastMutationAt: number | null;
+}
+
 interface PopupElement extends HTMLDivElement {
     _outsideClickHandler?: (e: Event) => void;
+    _open?: () => void;
+    _close?: (restoreFocus?: boolean) => void;
 }
 
 /**
- * AccessibilityValidator - Reusable accessibility validation module
+ * Key for matching an issue across runs of one widget: rule id + normalized HTML. It ignores
+ * the axe target, which can change when other content changes.
  */
-class AccessibilityValidator implements AccessibilityValidatorAPI {
-    private config: AccessibilityValidatorConfig;
-    private widgetCache = new WeakMap<Element, WidgetState>();
-    private recheckTimeout: number | undefined;
-    private mutationObserver: MutationObserver | null = null;
-    private isInitialized = false;
-    private uiClasses: UIClasses;
+function issueKey(ruleId: string, node: AxeNode): string {
+    return `${ruleId}|${node.html.replace(/\s+/g, ' ').trim()}`;
+}
 
-    // Default configuration
-    private static readonly DEFAULT_CONFIG: Omit<AccessibilityValidatorConfig, 'widgetSelectors'> = {
-        axeRules: [], // Empty array = run ALL rules (comment out specific rules to run everything)
-        // Alternative: Use specific rules for targeted checking
-        // axeRules: [
-        //     'image-alt',
-        //     'role-img-alt', 
-        //     'link-name',
-        //     'image-redundant-alt',
-        //     'svg-img-alt',
-        //     'identical-links-same-purpose'
-        // ],
-        debounceDelay: 300,
-        enableMutationObserver: true,
-        maxRetries: 1,
-        cmsEvents: [
-            'sf:contentModified',
-            'sf:widgetUpdated', 
-            'sf:propertyChanged',
-            'sf:designerClosed',
-            'sf:contentSaved'
-        ]
-    };
+function listIssues(violations: AxeViolation[], widgetSelector: string): IssueRef[] {
+    return violations.reduce<IssueRef[]>((issues, violation) => issues.concat(violation.nodes.map(node => ({
+        ruleId: violation.id,
+        fingerprint: fingerprintIssue(violation.id, node, widgetSelector),
+        violation,
+        node
+    }))), []);
+}
 
-    private static readonly A11Y_ATTRIBUTES: readonly string[] = [
-        'alt', 'src', 'href', 'title', 'aria-label', 'aria-labelledby', 'role'
-    ] as const;
+/**
+ * Diff two runs' issues, matching occurrences by issue key
+ */
+function diffIssues(previous: IssueRef[], current: IssueRef[], suppressed: SuppressedIssue[]): IssueDiff {
+    const remaining = new Map<string, IssueRef[]>();
+    previous.forEach(issue => {
+        const key: string = issueKey(issue.ruleId, issue.node);
+        remaining.set(key, [...(remaining.get(key) || []), issue]);
+    });
 
-    constructor(config: AccessibilityValidatorConfig) {
-        this.config = this.mergeConfig(config);
-        this.uiClasses = this.createUIClasses();
-        this.initialize();
-    }
+    const diff: IssueDiff = { added: [], resolved: [], unchanged: [] };
+    current.forEach(issue => {
+        const matches: IssueRef[] | undefined = remaining.get(issueKey(issue.ruleId, issue.node));
+        if (matches?.length) {
+            matches.shift();
+            diff.unchanged.push(issue);
+        } else {
+            diff.added.push(issue);
+        }
+    });
 
-    /**
-     * Merge user config with defaults
-     */
-    private mergeConfig(userConfig: AccessibilityValidatorConfig): AccessibilityValidatorConfig {
-        const merged = {
-            ...AccessibilityValidator.DEFAULT_CONFIG,
-            ...userConfig,
-            axeRules: userConfig.axeRules || AccessibilityValidator.DEFAULT_CONFIG.axeRules!,
-            cmsEvents: userConfig.cmsEvents || AccessibilityValidator.DEFAULT_CONFIG.cmsEvents!
-        };
+    const suppressedKeys = new Set(suppressed.map(({ ruleId, node }) => issueKey(ruleId, node)));
+    remaining.forEach((issues, key) => {
+        if (!suppressedKeys.has(key)) diff.resolved.push(...issues);
+    });
+    return diff;
+}
 
-        // Auto-detect debug logging if not specified
-        if (merged.enableDebugLogging === undefined) {
-            merged.enableDebugLogging = window.location.hostname === 'localhost' || 
-                                      window.location.hostname.includes('dev');
+/**
+ * Resolve when the browser is idle, or after `timeout` ms at the latest
+ */
+function whenIdle(timeout: number): Promise<void> {
+    return new Promise<void>(resolve => {
+        if (typeof window.requestIdleCallback === 'function') {
+            window.requestIdleCallback(() => resolve(), { timeout });
+        } else {
+            setTimeout(resolve, 0);
         }
+    });
+}
 
-        return merged;
+/**
+ * FNV-1a hash of a string, as 8 hex digits
+ */
+function hashString(input: string): string {
+    let hash: number = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
     }
+    return hash.toString(16).padStart(8, '0');
+}
 
-    /**
-     * Create UI class names (allow customization)
-     */
-    private createUIClasses(): UIClasses {
-        const defaults: UIClasses = {
-            OUTLINE: 'wa11y-outline',
-            BADGE: 'wa11y-badge',
-            POPUP: 'wa11y-popup',
-            CLOSE: 'wa11y-close'
-        };
-
-        return { ...defaults, ...(this.config.uiClasses || {}) } as UIClasses;
-    }
+/**
+ * Stable fingerprint of a rule + node: a hash of the issue key and the selector of the widget
+ * it belongs to ('' outside widgets). Identical elements in widgets of the same kind share one.
+ */
+function fingerprintIssue(ruleId: string, node: AxeNode, widgetSelector: string): string {
+    return `${ruleId}:${hashString(`${widgetSelector}|${issueKey(ruleId, node)}`)}`;
+}
 
-    /**
-     * Initialize the validator
-     */
-    private initialize(): void {
-        if (this.isInitialized) return;
-        
-        this.injectCSS();
-        this.setupEventListeners();
-        
-        if (document.readyState === 'loading') {
-            document.addEventListener('DOMContentLoaded', () => this.start());
-        } else {
-            this.start();
-        }
-        
-        this.isInitialized = true;
-    }
+/**
+ * Readable form of an axe target; frame levels and shadow root hops are joined with ' >>> '
+ */
+function formatTarget(target: AxeSelector[]): string {
+    return target.map(level => Array.isArray(level) ? level.join(' >>> ') : level).join(' >>> ');
+}
 
-    /**
-     * Start validation and watching
-     */
-    private start(): void {
-        this.recheckAll();
-        if (this.config.enableMutationObserver) {
-            this.startWatching();
+/**
+ * Resolve an axe target through same-origin frames and open shadow roots
+ */
+function resolveTarget(target: AxeSelector[]): Element | null {
+    let scope: Document | null = document;
+    let element: Element | null = null;
+    try {
+        for (const level of target) {
+            if (!scope) return null;
+            let parent: ParentNode | null = scope;
+            for (const selector of Array.isArray(level) ? level : [level]) {
+                element = parent?.querySelector(selector) ?? null;
+                parent = element?.shadowRoot ?? null;
+            }
+            // Cross-origin frames have no contentDocument
+            scope = (element as HTMLIFrameElement | null)?.contentDocument ?? null;
         }
+    } catch {
+        return null;
     }
+    return element;
+}
 
-    /**
-     * Get combined selector string
-     */
-    private getCombinedSelector(): string {
-        return this.config.widgetSelectors.join(', ');
-    }
+/**
+ * Parent of a node across shadow root and same-origin frame boundaries
+ */
+function getComposedParent(node: Node): Element | null {
+    if (node.parentElement) return node.parentElement;
+    const root: Node = node.getRootNode();
+    if (root === node) return null;
+    if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE) return (root as ShadowRoot).host ?? null;
+    return (root as Document).defaultView?.frameElement ?? null;
+}
 
-    /**
-     * Check if element matches any widget selector
-     */
-    private isTargetWidget(element: Element): boolean {
-        return this.config.widgetSelectors.some(selector => element.matches(selector));
+function containsComposed(ancestor: Element, node: Node): boolean {
+    if (ancestor.contains(node)) return true;
+    for (let current: Element | null = getComposedParent(node); current; current = getComposedParent(current)) {
+        if (current === ancestor) return true;
     }
+    return false;
+}
 
-    /**
-     * Check if element contains any widgets
+/**
+ * Open shadow roots in a subtree, including the root's own and nested ones
+ */
+function getShadowRoots(root: ParentNode): ShadowRoot[] {
+    const hosts: Element[] = Array.from(root.querySelectorAll('*'));
+    if ((root as Element).shadowRoot) hosts.unshift(root as Element);
+    return hosts.reduce<ShadowRoot[]>((roots, host) =>
+        host.shadowRoot ? roots.concat(host.shadowRoot, getShadowRoots(host.shadowRoot)) : roots, []);
+}
+
+/**
+ * querySelectorAll that also searches open shadow roots
+ */
+function querySelectorAllDeep(root: ParentNode, selector: string): Element[] {
+    return [root, ...getShadowRoots(root)].reduce<Element[]>((matches, scope) =>
+        matches.concat(Array.from(scope.querySelectorAll(selector))), []);
+}
+
+/**
+ * Same-origin frames in a subtree (including frames nested in them)
+ */
+function getSameOriginFrames(root: ParentNode): HTMLIFrameElement[] {
+    return querySelectorAllDeep(root, 'iframe, frame').reduce<HTMLIFrameElement[]>((frames, element) => {
+        const frame = element as HTMLIFrameElement;
+        const frameDocument: Document | null = frame.contentDocument;
+        return frameDocument ? frames.concat(frame, getSameOriginFrames(frameDocument)) : frames;
+    }, []);
+}
+
+/**
+ * Localization - UI message catalogs, plural forms and locale fallback
+ */
+const UI_MESSAGES: Record<string, UIMessages> = {
+    en: {
+        badgeIssues: { one: '{count} issue', other: '{count} issues' },
+        badgeNew: { other: '+{count} new' },
+        badgeLabel: { one: '{count} accessibility issue in this widget', other: '{count} accessibility issues in this widget' },
+        badgeLabelNew: { other: ', {count} new since the last check' },
+        badgeLabelFail: ', blocks publishing',
+        badgeLabelWarn: ', should be reviewed',
+        badgeTitle: 'Show accessibility issues for this widget',
+        popupTitle: 'Widget accessibility',
+        downloadReport: 'Download report',
+        close: 'Close',
+        newIssue: 'New',
+        learnMore: 'Learn more about {rule}',
+        fixAny: 'Fix any of the following',
+        fixAll: 'Fix all of the following',
+        fixNone: 'Fix all of the following (must not be present)',
+        highlightElement: 'Highlight this element',
+        checkDetails: 'Check details',
+        viewLabel: 'View',
+        viewEditor: 'Editor',
+        viewDeveloper: 'Developer',
+        guidanceSteps: 'How to fix',
+        guidanceDeveloper: 'This comes from the widget’s template or code rather than its content. Switch to the developer view and send the details to your developer.',
+        impactMinor: 'minor',
+        impactModerate: 'moderate',
+        impactSerious: 'serious',
+        impactCritical: 'critical',
+        announceNewIssues: { one: '{count} new issue in widget {widget}', other: '{count} new issues in widget {widget}' },
+        panelTitle: 'Accessibility summary',
+        panelDock: 'Dock panel',
+        panelDockLeft: 'left',
+        panelDockBottom: 'bottom',
+        panelDockRight: 'right',
+        panelClose: 'Close summary',
+        panelImpact: 'Impact',
+        panelRule: 'Rule',
+        panelAllImpacts: 'All impacts',
+        panelAllRules: 'All rules',
+        panelIssues: { one: '{count} issue', other: '{count} issues' },
+        panelNoIssues: 'No issues',
+        panelNoMatches: 'No widgets match the current filters',
+        panelTotals: { one: '{count} issue in {widgetsWithIssues} of {widgets} widgets', other: '{count} issues in {widgetsWithIssues} of {widgets} widgets' },
+        panelOutsideWidgets: { other: ' · {count} outside widgets' },
+        panelBlocking: { other: ' · {count} blocking publishing' },
+        panelToReview: { other: ' · {count} to review' },
+        panelHistory: 'Progress',
+        panelHistoryChange: { one: '{first} → {count} issue since {date}', other: '{first} → {count} issues since {date}' },
+        panelHistoryRuns: { one: ' ({count} audit)', other: ' ({count} audits)' },
+        panelHistoryDetail: '{fixed} fixed · {introduced} new',
+        publishTitle: 'Accessibility issues block publishing',
+        publishIssues: { one: '{count} issue', other: '{count} issues' },
+        publishWidgets: { one: '{count} widget', other: '{count} widgets' },
+        publishDescription: { other: '{issues} in {widgets} must be fixed before this page is published.' },
+        publishDescriptionAcknowledge: { other: '{issues} in {widgets} must be fixed, or acknowledged with a reason, before this page is published.' },
+        publishReason: 'Reason for publishing with these issues',
+        publishReview: 'Review issues',
+        publishCancel: 'Cancel',
+        publishAnyway: 'Publish anyway',
+        publishFailedTitle: 'The accessibility check could not run',
+        publishFailed: 'The page could not be checked, so it can’t be published yet. Try again in a moment.',
+        publishFailedAcknowledge: 'The page could not be checked. Try again in a moment, or publish with a reason.',
+        toggleLabel: 'Accessibility overlay',
+        toggleTitle: 'Toggle accessibility overlay ({shortcut})',
+        reportTitle: 'Accessibility report',
+        reportPage: 'Page',
+        reportDate: 'Date',
+        reportStatus: 'Status',
+        reportComplete: 'Complete',
+        reportFailed: 'Failed',
+        reportWidgets: 'Widgets',
+        reportWidgetCount: { other: '{count} ({withIssues} with issues)' },
+        reportIssues: 'Issues',
+        reportIssueCount: { one: '{count} ({nodes} element)', other: '{count} ({nodes} elements)' },
+        reportSuppressed: 'Suppressed',
+        reportEngine: 'Engine',
+        reportPageIssues: 'Page-level issues',
+        reportNoIssues: 'No issues found.'
+    },
+    fr: {
+        badgeIssues: { one: '{count} problème', other: '{count} problèmes' },
+        badgeNew: { one: '+{count} nouveau', other: '+{count} nouveaux' },
+        badgeLabel: { one: '{count} problème d’accessibilité dans ce widget', other: '{count} problèmes d’accessibilité dans ce widget' },
+        badgeLabelNew: { one: ', {count} nouveau depuis la dernière vérification', other: ', {count} nouveaux depuis la dernière vérification' },
+        badgeLabelFail: ', bloque la publication',
+        badgeLabelWarn: ', à vérifier',
+        badgeTitle: 'Afficher les problèmes d’accessibilité de ce widget',
+        popupTitle: 'Accessibilité du widget',
+        downloadReport: 'Télécharger le rapport',
+        close: 'Fermer',
+        newIssue: 'Nouveau',
+        learnMore: 'En savoir plus sur {rule}',
+        fixAny: 'Corrigez l’un des points suivants',
+        fixAll: 'Corrigez tous les points suivants',
+        fixNone: 'Corrigez tous les points suivants (ne doivent pas être présents)',
+        highlightElement: 'Mettre cet élément en évidence',
+        checkDetails: 'Détails des vérifications',
+        viewLabel: 'Affichage',
+        viewEditor: 'Rédaction',
+        viewDeveloper: 'Développement',
+        guidanceSteps: 'Comment corriger',
+        guidanceDeveloper: 'Ce problème vient du gabarit ou du code du widget, pas de son contenu. Passez à l’affichage Développement et transmettez les détails à votre développeur.',
+        impactMinor: 'mineur',
+        impactModerate: 'modéré',
+        impactSerious: 'grave',
+        impactCritical: 'critique',
+        announceNewIssues: { one: '{count} nouveau problème dans le widget {widget}', other: '{count} nouveaux problèmes dans le widget {widget}' },
+        panelTitle: 'Résumé d’accessibilité',
+        panelDock: 'Position du panneau',
+        panelDockLeft: 'gauche',
+        panelDockBottom: 'bas',
+        panelDockRight: 'droite',
+        panelClose: 'Fermer le résumé',
+        panelImpact: 'Impact',
+        panelRule: 'Règle',
+        panelAllImpacts: 'Tous les impacts',
+        panelAllRules: 'Toutes les règles',
+        panelIssues: { one: '{count} problème', other: '{count} problèmes' },
+        panelNoIssues: 'Aucun problème',
+        panelNoMatches: 'Aucun widget ne correspond aux filtres',
+        panelTotals: { one: '{count} problème dans {widgetsWithIssues} widget(s) sur {widgets}', other: '{count} problèmes dans {widgetsWithIssues} widget(s) sur {widgets}' },
+        panelOutsideWidgets: { other: ' · {count} hors des widgets' },
+        panelBlocking: { one: ' · {count} bloque la publication', other: ' · {count} bloquent la publication' },
+        panelToReview: { other: ' · {count} à vérifier' },
+        panelHistory: 'Évolution',
+        panelHistoryChange: { one: '{first} → {count} problème depuis le {date}', other: '{first} → {count} problèmes depuis le {date}' },
+        panelHistoryRuns: { one: ' ({count} audit)', other: ' ({count} audits)' },
+        panelHistoryDetail: '{fixed} corrigé(s) · {introduced} nouveau(x)',
+        publishTitle: 'Des problèmes d’accessibilité bloquent la publication',
+        publishIssues: { one: '{count} problème', other: '{count} problèmes' },
+        publishWidgets: { one: '{count} widget', other: '{count} widgets' },
+        publishDescription: {
+            one: '{issues} dans {widgets} doit être corrigé avant la publication de cette page.',
+            other: '{issues} dans {widgets} doivent être corrigés avant la publication de cette page.'
+        },
+        publishDescriptionAcknowledge: {
+            one: '{issues} dans {widgets} doit être corrigé, ou accepté avec une justification, avant la publication de cette page.',
+            other: '{issues} dans {widgets} doivent être corrigés, ou acceptés avec une justification, avant la publication de cette page.'
+        },
+        publishReason: 'Raison de la publication malgré ces problèmes',
+        publishReview: 'Voir les problèmes',
+        publishCancel: 'Annuler',
+        publishAnyway: 'Publier quand même',
+        publishFailedTitle: 'La vérification d’accessibilité n’a pas pu s’exécuter',
+        publishFailed: 'La page n’a pas pu être vérifiée, elle ne peut donc pas encore être publiée. Réessayez dans un instant.',
+        publishFailedAcknowledge: 'La page n’a pas pu être vérifiée. Réessayez dans un instant, ou publiez avec une justification.',
+        toggleLabel: 'Calque d’accessibilité',
+        toggleTitle: 'Afficher ou masquer le calque d’accessibilité ({shortcut})',
+        reportTitle: 'Rapport d’accessibilité',
+        reportPage: 'Page',
+        reportDate: 'Date',
+        reportStatus: 'État',
+        reportComplete: 'Terminé',
+        reportFailed: 'Échec',
+        reportWidgets: 'Widgets',
+        reportWidgetCount: { other: '{count} (dont {withIssues} avec des problèmes)' },
+        reportIssues: 'Problèmes',
+        reportIssueCount: { one: '{count} ({nodes} élément)', other: '{count} ({nodes} éléments)' },
+        reportSuppressed: 'Ignorés',
+        reportEngine: 'Moteur',
+        reportPageIssues: 'Problèmes au niveau de la page',
+        reportNoIssues: 'Aucun problème trouvé.'
+    }
+};
+
+const DEFAULT_LOCALE = 'en';
+
+/**
+ * Locales to look messages up in, most specific first: 'fr-CA' → ['fr-CA', 'fr', 'en']
+ */
+function getLocaleChain(locale: string): string[] {
+    const language: string = locale.split(/[-_]/)[0];
+    return Array.from(new Set([locale, language, DEFAULT_LOCALE]));
+}
+
+/**
+ * Plural category of a count; Intl.PluralRules is ES2018, so older engines get English rules
+ */
+function getPluralCategory(locale: string, count: number): PluralCategory {
+    const PluralRules = (Intl as unknown as { PluralRules?: new (locale: string) => { select(count: number): PluralCategory } }).PluralRules;
+    if (PluralRules) {
+        try {
+            return new PluralRules(locale).select(count);
+        } catch {
+            // Unknown locale tag; fall through
+        }
+    }
+    return count === 1 ? 'one' : 'other';
+}
+
+/**
+ * Fill a message's `{name}` placeholders, picking the plural form for `{count}`
+ */
+function formatMessage(message: string | PluralMessage, locale: string, params: Record<string, string | number> = {}): string {
+    const text: string = typeof message === 'string'
+        ? message
+        : message[getPluralCategory(locale, Number(params.count))] ?? message.other;
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder);
+}
+
+/**
+ * Editor guidance - plain-language explanations and CMS fix steps by locale and rule id
+ */
+const RULE_GUIDANCE: Record<string, Record<string, RuleGuidance>> = {
+    en: {
+        'image-alt': {
+            summary: 'People who use a screen reader hear nothing useful for this image, because it has no alternative text.',
+            steps: [
+                'Open the Image widget (or the image in Content › Images).',
+                'Fill in Alternative text with what the image shows or means, e.g. "Students in the new library".',
+                'If the image is only decoration, leave Alternative text empty and mark the image as decorative.'
+            ]
+        },
+        'image-redundant-alt': {
+            summary: 'The image’s alternative text repeats the text next to it, so screen reader users hear it twice.',
+            steps: [
+                'Open the Image widget.',
+                'Change Alternative text so it adds something the nearby text doesn’t say, or mark the image as decorative.'
+            ]
+        },
+        'role-img-alt': {
+            summary: 'A graphic or icon has no text alternative, so screen reader users don’t know what it shows.',
+            steps: [
+                'If you pasted or embedded this graphic in a Content block, add a short text description next to it.',
+                'If it’s part of the widget’s design, ask your developer to give it a label.'
+            ]
+        },
+        'svg-img-alt': {
+            summary: 'A graphic or icon has no text alternative, so screen reader users don’t know what it shows.',
+            steps: [
+                'If you pasted or embedded this graphic in a Content block, add a short text description next to it.',
+                'If it’s part of the widget’s design, ask your developer to give it a label.'
+            ]
+        },
+        'link-name': {
+            summary: 'This link has no text, so screen reader users only hear "link" and don’t know where it goes.',
+            steps: [
+                'Open the Content block or widget containing the link.',
+                'Give the link text that says where it goes, e.g. "Download the 2024 annual report".',
+                'If the link is an image, fill in the image’s Alternative text with where the link goes.'
+            ]
+        },
+        'identical-links-same-purpose': {
+            summary: 'Links with the same text go to different pages, so visitors can’t tell them apart.',
+            steps: ['Make each link’s text unique, e.g. "Read more about admissions" instead of "Read more".']
+        },
+        'link-in-text-block': {
+            summary: 'A link inside a paragraph can only be told apart from the text by its colour.',
+            steps: [
+                'Keep links underlined: don’t remove the underline in the Content block editor.',
+                'If the site’s styles remove it, ask your developer.'
+            ]
+        },
+        'button-name': {
+            summary: 'This button has no text, so screen reader users don’t know what it does.',
+            steps: ['Open the widget (e.g. Call to action) and fill in the button’s label, e.g. "Apply now".']
+        },
+        'color-contrast': {
+            summary: 'The text colour is too close to its background, so the text is hard to read for people with low vision or in bright light.',
+            steps: [
+                'In the Content block editor, remove custom text or highlight colours from this text, or pick colours from the site’s palette.',
+                'For text over an image, choose another image or a style with a solid background.',
+                'If the colours come from the widget’s design, ask your developer.'
+            ]
+        },
+        'heading-order': {
+            summary: 'Headings skip a level (e.g. Heading 2 followed by Heading 4), so people who navigate by headings think something is missing.',
+            steps: [
+                'Open the Content block.',
+                'Select the heading and pick the next level in the Formatting menu, e.g. Heading 3 after Heading 2.',
+                'Choose headings by their place in the outline, not by their size.'
+            ]
+        },
+        'empty-heading': {
+            summary: 'There is an empty heading, which screen readers announce as a heading with no text.',
+            steps: [
+                'Open the Content block and find the empty line formatted as a heading.',
+                'Delete it, or change its format to Paragraph.'
+            ]
+        },
+        'frame-title': {
+            summary: 'An embedded frame (e.g. a map or video) has no title, so screen reader users don’t know what it contains.',
+            steps: [
+                'Open the widget or Content block holding the embed code.',
+                'Add a title to the <iframe> tag describing its content, e.g. title="Map of the campus".'
+            ]
+        },
+        'video-caption': {
+            summary: 'The video has no captions, so deaf and hard-of-hearing visitors miss what is said.',
+            steps: [
+                'Get a captions file (WebVTT) for the video, or turn captions on in the video platform.',
+                'Open the Video widget and add the captions, or embed the captioned version.'
+            ]
+        },
+        'list': {
+            summary: 'This list isn’t built as a real list, so screen readers can’t announce how many items it has.',
+            steps: [
+                'Open the Content block, select the items and apply the Bulleted or Numbered list button again.',
+                'When pasting from Word, paste as plain text and re-create the list.'
+            ]
+        },
+        'listitem': {
+            summary: 'This list isn’t built as a real list, so screen readers can’t announce how many items it has.',
+            steps: [
+                'Open the Content block, select the items and apply the Bulleted or Numbered list button again.',
+                'When pasting from Word, paste as plain text and re-create the list.'
+            ]
+        },
+        'label': {
+            summary: 'A form field has no label, so screen reader users don’t know what to enter.',
+            steps: ['Open the form (Content › Forms), select the field and fill in its Label.']
+        },
+        'select-name': {
+            summary: 'A drop-down list has no label, so screen reader users don’t know what to choose.',
+            steps: ['Open the form (Content › Forms), select the field and fill in its Label.']
+        },
+        'th-has-data-cells': {
+            summary: 'The table’s header cells aren’t linked to its data, so screen reader users can’t tell which column or row a value belongs to.',
+            steps: ['In the Content block’s table tools, mark only the first row (or column) as the header, and remove empty header cells.']
+        },
+        'empty-table-header': {
+            summary: 'A table header cell is empty, so screen reader users don’t know what its column or row holds.',
+            steps: ['In the Content block’s table, type a short name into each header cell.']
+        }
+    },
+    fr: {
+        'image-alt': {
+            summary: 'Les personnes qui utilisent un lecteur d’écran n’entendent rien d’utile pour cette image, car elle n’a pas de texte alternatif.',
+            steps: [
+                'Ouvrez le widget Image (ou l’image dans Contenu › Images).',
+                'Remplissez le texte alternatif avec ce que l’image montre ou signifie, p. ex. « Étudiants dans la nouvelle bibliothèque ».',
+                'Si l’image est purement décorative, laissez le texte alternatif vide et marquez l’image comme décorative.'
+            ]
+        },
+        'image-redundant-alt': {
+            summary: 'Le texte alternatif de l’image répète le texte voisin : les utilisateurs de lecteur d’écran l’entendent deux fois.',
+            steps: [
+                'Ouvrez le widget Image.',
+                'Modifiez le texte alternatif pour qu’il apporte une information absente du texte voisin, ou marquez l’image comme décorative.'
+            ]
+        },
+        'role-img-alt': {
+            summary: 'Un graphique ou une icône n’a pas d’équivalent textuel : les utilisateurs de lecteur d’écran ne savent pas ce qu’il représente.',
+            steps: [
+                'Si vous avez collé ou intégré ce graphique dans un bloc de contenu, ajoutez une courte description à côté.',
+                'S’il fait partie du design du widget, demandez à votre développeur de lui donner un libellé.'
+            ]
+        },
+        'svg-img-alt': {
+            summary: 'Un graphique ou une icône n’a pas d’équivalent textuel : les utilisateurs de lecteur d’écran ne savent pas ce qu’il représente.',
+            steps: [
+                'Si vous avez collé ou intégré ce graphique dans un bloc de contenu, ajoutez une courte description à côté.',
+                'S’il fait partie du design du widget, demandez à votre développeur de lui donner un libellé.'
+            ]
+        },
+        'link-name': {
+            summary: 'Ce lien n’a pas de texte : les utilisateurs de lecteur d’écran entendent seulement « lien » sans savoir où il mène.',
+            steps: [
+                'Ouvrez le bloc de contenu ou le widget qui contient le lien.',
+                'Donnez au lien un texte qui indique sa destination, p. ex. « Télécharger le rapport annuel 2024 ».',
+                'Si le lien est une image, indiquez la destination du lien dans le texte alternatif de l’image.'
+            ]
+        },
+        'identical-links-same-purpose': {
+            summary: 'Des liens au texte identique mènent à des pages différentes : les visiteurs ne peuvent pas les distinguer.',
+            steps: ['Rendez le texte de chaque lien unique, p. ex. « En savoir plus sur les admissions » plutôt que « En savoir plus ».']
+        },
+        'link-in-text-block': {
+            summary: 'Un lien dans un paragraphe ne se distingue du texte que par sa couleur.',
+            steps: [
+                'Gardez les liens soulignés : ne retirez pas le soulignement dans l’éditeur du bloc de contenu.',
+                'Si ce sont les styles du site qui le retirent, contactez votre développeur.'
+            ]
+        },
+        'button-name': {
+            summary: 'Ce bouton n’a pas de texte : les utilisateurs de lecteur d’écran ne savent pas à quoi il sert.',
+            steps: ['Ouvrez le widget (p. ex. Appel à l’action) et remplissez le libellé du bouton, p. ex. « Postuler ».']
+        },
+        'color-contrast': {
+            summary: 'La couleur du texte est trop proche de celle du fond : le texte est difficile à lire pour les personnes malvoyantes ou en plein soleil.',
+            steps: [
+                'Dans l’éditeur du bloc de contenu, retirez les couleurs de texte ou de surlignage personnalisées, ou choisissez des couleurs de la palette du site.',
+                'Pour un texte sur une image, choisissez une autre image ou un style avec un fond uni.',
+                'Si les couleurs viennent du design du widget, contactez votre développeur.'
+            ]
+        },
+        'heading-order': {
+            summary: 'Les titres sautent un niveau (p. ex. Titre 2 suivi de Titre 4) : les personnes qui naviguent par titres pensent qu’il manque du contenu.',
+            steps: [
+                'Ouvrez le bloc de contenu.',
+                'Sélectionnez le titre et choisissez le niveau suivant dans le menu Format, p. ex. Titre 3 après Titre 2.',
+                'Choisissez le niveau d’un titre selon sa place dans le plan, pas selon sa taille.'
+            ]
+        },
+        'empty-heading': {
+            summary: 'Un titre est vide : les lecteurs d’écran annoncent un titre sans texte.',
+            steps: [
+                'Ouvrez le bloc de contenu et repérez la ligne vide mise en forme comme titre.',
+                'Supprimez-la ou changez son format en Paragraphe.'
+            ]
+        },
+        'frame-title': {
+            summary: 'Un cadre intégré (p. ex. une carte ou une vidéo) n’a pas de titre : les utilisateurs de lecteur d’écran ne savent pas ce qu’il contient.',
+            steps: [
+                'Ouvrez le widget ou le bloc de contenu qui contient le code d’intégration.',
+                'Ajoutez à la balise <iframe> un titre qui décrit son contenu, p. ex. title="Plan du campus".'
+            ]
+        },
+        'video-caption': {
+            summary: 'La vidéo n’a pas de sous-titres : les visiteurs sourds ou malentendants ne savent pas ce qui est dit.',
+            steps: [
+                'Procurez-vous un fichier de sous-titres (WebVTT) ou activez les sous-titres sur la plateforme vidéo.',
+                'Ouvrez le widget Vidéo et ajoutez les sous-titres, ou intégrez la version sous-titrée.'
+            ]
+        },
+        'list': {
+            summary: 'Cette liste n’est pas une vraie liste : les lecteurs d’écran ne peuvent pas annoncer son nombre d’éléments.',
+            steps: [
+                'Ouvrez le bloc de contenu, sélectionnez les éléments et appliquez de nouveau le bouton Liste à puces ou Liste numérotée.',
+                'Pour un texte copié depuis Word, collez-le en texte brut et recréez la liste.'
+            ]
+        },
+        'listitem': {
+            summary: 'Cette liste n’est pas une vraie liste : les lecteurs d’écran ne peuvent pas annoncer son nombre d’éléments.',
+            steps: [
+                'Ouvrez le bloc de contenu, sélectionnez les éléments et appliquez de nouveau le bouton Liste à puces ou Liste numérotée.',
+                'Pour un texte copié depuis Word, collez-le en texte brut et recréez la liste.'
+            ]
+        },
+        'label': {
+            summary: 'Un champ de formulaire n’a pas d’étiquette : les utilisateurs de lecteur d’écran ne savent pas quoi saisir.',
+            steps: ['Ouvrez le formulaire (Contenu › Formulaires), sélectionnez le champ et remplissez son étiquette.']
+        },
+        'select-name': {
+            summary: 'Une liste déroulante n’a pas d’étiquette : les utilisateurs de lecteur d’écran ne savent pas quoi choisir.',
+            steps: ['Ouvrez le formulaire (Contenu › Formulaires), sélectionnez le champ et remplissez son étiquette.']
+        },
+        'th-has-data-cells': {
+            summary: 'Les cellules d’en-tête du tableau ne sont pas reliées aux données : les utilisateurs de lecteur d’écran ne savent pas à quelle colonne ou ligne une valeur appartient.',
+            steps: ['Dans les outils de tableau du bloc de contenu, définissez seulement la première ligne (ou colonne) comme en-tête et supprimez les cellules d’en-tête vides.']
+        },
+        'empty-table-header': {
+            summary: 'Une cellule d’en-tête du tableau est vide : les utilisateurs de lecteur d’écran ne savent pas ce que contient sa colonne ou sa ligne.',
+            steps: ['Dans le tableau du bloc de contenu, saisissez un nom court dans chaque cellule d’en-tête.']
+        }
+    }
+};
+
+/**
+ * Config validation - checks a config against CONFIG_SCHEMA and reports every problem with its path
+ */
+
+// Shape of a config value
+interface ConfigSchema {
+    /** Value type (unset with `oneOf`) */
+    type?: 'string' | 'number' | 'boolean' | 'function' | 'object' | 'array' | 'record';
+    /** Allowed values */
+    enum?: readonly unknown[];
+    /** Smallest allowed number */
+    min?: number;
+    integer?: boolean;
+    /** What a string holds, checked beyond its type */
+    format?: 'selector' | 'widgetSelector' | 'ruleId' | 'tag' | 'preset' | 'date';
+    /** Schema of array items */
+    items?: ConfigSchema;
+    /** Known properties of an object; other keys are reported */
+    properties?: Record<string, ConfigSchema>;
+    required?: string[];
+    /** Schemas of record keys and values */
+    keys?: ConfigSchema;
+    values?: ConfigSchema;
+    /** Alternatives; a value is checked against the first one of its type */
+    oneOf?: ConfigSchema[];
+}
+
+// What format checks compare against
+interface ConfigValidationContext {
+    ruleIds: string[];
+    tags: string[];
+    presets: string[];
+    /** Class names in the document, or null before it has loaded */
+    classNames(): string[] | null;
+}
+
+const IMPACT_SCHEMA: ConfigSchema = { type: 'string', enum: ['minor', 'moderate', 'serious', 'critical'] };
+const SELECTOR_SCHEMA: ConfigSchema = { type: 'string', format: 'selector' };
+const RULE_IDS_SCHEMA: ConfigSchema = { type: 'array', items: { type: 'string', format: 'ruleId' } };
+const STRINGS_SCHEMA: ConfigSchema = { type: 'array', items: { type: 'string' } };
+const STRING_OR_FALSE_SCHEMA: ConfigSchema = { oneOf: [{ type: 'string' }, { type: 'boolean', enum: [false] }] };
+const GUIDANCE_SCHEMA: ConfigSchema = {
+    type: 'record',
+    keys: { type: 'string', format: 'ruleId' },
+    values: {
+        oneOf: [
+            { type: 'boolean', enum: [false] },
+            { type: 'object', required: ['summary'], properties: { summary: { type: 'string' }, steps: STRINGS_SCHEMA } }
+        ]
+    }
+};
+const IMPACT_BUDGET_SCHEMA: ConfigSchema = { type: 'record', keys: IMPACT_SCHEMA, values: { type: 'number', integer: true, min: 0 } };
+
+const RULE_SELECTION_PROPERTIES: Record<string, ConfigSchema> = {
+    axeRules: RULE_IDS_SCHEMA,
+    axeTags: { type: 'array', items: { type: 'string', format: 'tag' } },
+    preset: { oneOf: [{ type: 'string', format: 'preset' }, { type: 'array', items: { type: 'string', format: 'preset' } }] },
+    includeRules: RULE_IDS_SCHEMA,
+    excludeRules: RULE_IDS_SCHEMA
+};
+
+const CONFIG_SCHEMA: ConfigSchema = {
+    type: 'object',
+    required: ['widgetSelectors'],
+    properties: {
+        widgetSelectors: { type: 'array', items: { type: 'string', format: 'widgetSelector' } },
+        ...RULE_SELECTION_PROPERTIES,
+        ruleProfiles: {
+            type: 'array',
+            items: { type: 'object', required: ['selector'], properties: { selector: SELECTOR_SCHEMA, ...RULE_SELECTION_PROPERTIES } }
+        },
+        debounceDelay: { type: 'number', min: 0 },
+        enableMutationObserver: { type: 'boolean' },
+        observedAttributes: STRINGS_SCHEMA,
+        observeCharacterData: { type: 'boolean' },
+        shadowDom: { type: 'boolean' },
+        iframes: { type: 'boolean' },
+        maxRetries: { type: 'number', integer: true, min: 0 },
+        batchSize: { type: 'number', integer: true, min: 1 },
+        idleTimeout: { type: 'number', min: 0 },
+        uiClasses: {
+            type: 'object',
+            properties: ['OUTLINE', 'BADGE', 'POPUP', 'CLOSE', 'EXPORT', 'PANEL', 'HIGHLIGHT', 'LIVE', 'HOST', 'OVERLAY', 'TOGGLE', 'MODAL']
+                .reduce<Record<string, ConfigSchema>>((properties, key) => ({ ...properties, [key]: { type: 'string' } }), {})
+        },
+        cmsEvents: STRINGS_SCHEMA,
+        customCSS: { type: 'string' },
+        enableDebugLogging: { type: 'boolean' },
+        includeIncomplete: { oneOf: [{ type: 'boolean' }, RULE_IDS_SCHEMA] },
+        minImpact: IMPACT_SCHEMA,
+        impactOverrides: { type: 'record', keys: { type: 'string', format: 'ruleId' }, values: IMPACT_SCHEMA },
+        qualityGates: {
+            type: 'array',
+            items: { type: 'object', properties: { selector: SELECTOR_SCHEMA, fail: IMPACT_BUDGET_SCHEMA, warn: IMPACT_BUDGET_SCHEMA } }
+        },
+        auditScope: { type: 'string', enum: ['document', 'widget'] },
+        nestedWidgets: { type: 'string', enum: ['innermost', 'all'] },
+        exportFormat: { type: 'string', enum: ['json', 'csv', 'sarif', 'html'] },
+        sarifOptions: {
+            type: 'object',
+            properties: {
+                uriBaseId: { type: 'string' },
+                baseUri: { type: 'string' },
+                locate: { type: 'function' }
+            }
+        },
+        enableSummaryPanel: { type: 'boolean' },
+        summaryPanelDock: { type: 'string', enum: ['left', 'right', 'bottom'] },
+        renderMode: { type: 'string', enum: ['inline', 'shadow', 'none'] },
+        suppressions: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['reason'],
+                properties: {
+                    ruleId: { type: 'string', format: 'ruleId' },
+                    selector: SELECTOR_SCHEMA,
+                    widget: SELECTOR_SCHEMA,
+                    fingerprint: { type: 'string' },
+                    reason: { type: 'string' },
+                    expires: { type: 'string', format: 'date' }
+                }
+            }
+        },
+        baselineUrl: { type: 'string' },
+        suppressionStorageKey: STRING_OR_FALSE_SCHEMA,
+        customRules: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'selector', 'evaluate', 'help'],
+                properties: {
+                    id: { type: 'string' },
+                    selector: SELECTOR_SCHEMA,
+                    evaluate: { type: 'function' },
+                    matches: { type: 'function' },
+                    help: { type: 'string' },
+                    description: { type: 'string' },
+                    helpUrl: { type: 'string' },
+                    impact: IMPACT_SCHEMA,
+                    tags: STRINGS_SCHEMA,
+                    failureMessage: { type: 'string' }
+                }
+            }
+        },
+        // Custom adapters are objects whose methods usually live on a prototype, so only the type is checked
+        cmsAdapter: { oneOf: [{ type: 'string', enum: ['sitefinity', 'data-attribute', 'none'] }, { type: 'object' }] },
+        cmsAdapterOptions: {
+            type: 'object',
+            properties: {
+                discoverWidgets: { type: 'boolean' },
+                nameAttribute: { type: 'string' },
+                titleAttribute: { type: 'string' },
+                idAttribute: { type: 'string' },
+                placeholderAttribute: { type: 'string' },
+                publishSelector: SELECTOR_SCHEMA,
+                widgetAttribute: { type: 'string' },
+                labelAttribute: { type: 'string' },
+                editorAttribute: { type: 'string' },
+                publishAttribute: { type: 'string' },
+                events: STRINGS_SCHEMA
+            }
+        },
+        publishGuard: {
+            oneOf: [
+                { type: 'boolean' },
+                {
+                    type: 'object',
+                    properties: {
+                        selector: SELECTOR_SCHEMA,
+                        blockOn: { type: 'string', enum: ['fail', 'warn'] },
+                        allowAcknowledge: { type: 'boolean' }
+                    }
+                }
+            ]
+        },
+        activation: {
+            oneOf: [
+                { type: 'string', enum: ['always'] },
+                {
+                    type: 'object',
+                    properties: {
+                        editorMode: { type: 'boolean' },
+                        queryParam: STRING_OR_FALSE_SCHEMA,
+                        cookie: STRING_OR_FALSE_SCHEMA,
+                        storageKey: STRING_OR_FALSE_SCHEMA,
+                        roleCheck: { type: 'function' }
+                    }
+                }
+            ]
+        },
+        toggleShortcut: STRING_OR_FALSE_SCHEMA,
+        showToggleButton: { type: 'boolean' },
+        locale: { type: 'string' },
+        axeLocale: {
+            type: 'object',
+            required: ['lang'],
+            properties: {
+                lang: { type: 'string' },
+                rules: { type: 'object' },
+                checks: { type: 'object' },
+                failureSummaries: { type: 'object' },
+                incompleteFallbackMessage: { type: 'string' }
+            }
+        },
+        translations: {
+            type: 'record',
+            values: {
+                type: 'object',
+                properties: {
+                    ui: {
+                        type: 'object',
+                        properties: Object.keys(UI_MESSAGES[DEFAULT_LOCALE]).reduce<Record<string, ConfigSchema>>((properties, key) => ({
+                            ...properties,
+                            [key]: { oneOf: [{ type: 'string' }, { type: 'object', required: ['other'] }] }
+                        }), {})
+                    },
+                    rules: {
+                        type: 'record',
+                        keys: { type: 'string', format: 'ruleId' },
+                        values: { type: 'object', properties: { help: { type: 'string' }, description: { type: 'string' }, failureMessage: { type: 'string' } } }
+                    },
+                    guidance: GUIDANCE_SCHEMA
+                }
+            }
+        },
+        guidanceView: { type: 'string', enum: ['editor', 'developer'] },
+        guidance: GUIDANCE_SCHEMA,
+        // Like CMS adapters, custom stores are only checked to be objects
+        history: { oneOf: [{ type: 'boolean', enum: [false] }, { type: 'string', enum: ['localStorage', 'indexedDB'] }, { type: 'object' }] },
+        historyOptions: {
+            type: 'object',
+            properties: {
+                pageKey: { type: 'function' },
+                maxEntries: { type: 'number', integer: true, min: 1 },
+                minInterval: { type: 'number', min: 0 },
+                storageName: { type: 'string' }
+            }
+        }
+    }
+};
+
+function typeOfValue(value: unknown): string {
+    if (value === null) return 'null';
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function matchesSchemaType(value: unknown, schema: ConfigSchema): boolean {
+    const actual: string = typeOfValue(value);
+    if (schema.type === 'record') return actual === 'object';
+    return actual === schema.type;
+}
+
+/**
+ * Edit distance counting swapped neighbours as one edit, for "did you mean" suggestions
+ */
+function editDistance(a: string, b: string): number {
+    const rows: number[][] = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+    for (let i = 1; i <= a.length; i++) {
+        rows[i] = [i];
+        for (let j = 1; j <= b.length; j++) {
+            rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+            }
+        }
+    }
+    return rows[a.length][b.length];
+}
+
+/**
+ * Closest candidate close enough to be a likely typo of `value`
+ */
+function closestMatch(value: string, candidates: readonly string[]): string | undefined {
+    const maxDistance: number = Math.max(1, Math.floor(value.length / 3));
+    let best: string | undefined;
+    let bestDistance: number = Infinity;
+    candidates.forEach(candidate => {
+        const distance: number = editDistance(value.toLowerCase(), candidate.toLowerCase());
+        if (distance < bestDistance && distance <= maxDistance) {
+            best = candidate;
+            bestDistance = distance;
+        }
+    });
+    return best;
+}
+
+function isValidSelector(selector: string): boolean {
+    try {
+        document.createDocumentFragment().querySelector(selector);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function checkFormat(value: string, schema: ConfigSchema, path: string, context: ConfigValidationContext, problems: ConfigProblem[]): void {
+    switch (schema.format) {
+        case 'selector':
+        case 'widgetSelector': {
+            // Selectors can only be parsed with a DOM, e.g. not in a Node build script
+            if (typeof document === 'undefined') return;
+            if (!isValidSelector(value)) {
+                problems.push({ path, severity: 'error', message: `"${value}" is not a valid CSS selector` });
+                return;
+            }
+            if (schema.format !== 'widgetSelector' || document.querySelector(value)) return;
+            const classNames: string[] | null = context.classNames();
+            if (!classNames) return;
+            // A widget selector that matches nothing is only reported when it looks like a class name typo
+            let suggestion: string = value;
+            value.replace(/\.(-?[_a-zA-Z][\w-]*)/g, (match: string, className: string): string => {
+                const closest: string | undefined = classNames.includes(className) ? undefined : closestMatch(className, classNames);
+                if (closest) suggestion = suggestion.replace(match, `.${closest}`);
+                return match;
+            });
+            if (suggestion !== value) {
+                problems.push({ path, severity: 'warning', message: `"${value}" matches no elements`, suggestion });
+            }
+            return;
+        }
+        case 'ruleId':
+            if (!context.ruleIds.includes(value)) {
+                problems.push({ path, severity: 'warning', message: `unknown axe rule id "${value}"`, suggestion: closestMatch(value, context.ruleIds) });
+            }
+            return;
+        case 'tag':
+            if (!context.tags.includes(value)) {
+                problems.push({ path, severity: 'warning', message: `axe tag "${value}" matches no rules`, suggestion: closestMatch(value, context.tags) });
+            }
+            return;
+        case 'preset':
+            if (!context.presets.includes(value)) {
+                problems.push({
+                    path,
+                    severity: 'error',
+                    message: `unknown preset "${value}", expected one of ${context.presets.join(', ')}`,
+                    suggestion: closestMatch(value, context.presets)
+                });
+            }
+            return;
+        case 'date':
+            if (isNaN(Date.parse(value))) {
+                problems.push({ path, severity: 'error', message: `"${value}" is not a valid date` });
+            }
+            return;
+    }
+}
+
+/**
+ * Check a value against a schema, collecting every problem rather than stopping at the first
+ */
+function checkConfigValue(value: unknown, schema: ConfigSchema, path: string, context: ConfigValidationContext, problems: ConfigProblem[]): void {
+    if (schema.oneOf) {
+        const match: ConfigSchema | undefined = schema.oneOf.find(alternative => matchesSchemaType(value, alternative));
+        if (match) {
+            checkConfigValue(value, match, path, context, problems);
+        } else {
+            const expected: string[] = schema.oneOf.map(alternative => alternative.enum
+                ? alternative.enum.map(v => JSON.stringify(v)).join(' or ')
+                : alternative.type!);
+            problems.push({ path, severity: 'error', message: `expected ${expected.join(' or ')}, got ${typeOfValue(value)}` });
+        }
+        return;
+    }
+
+    if (!matchesSchemaType(value, schema)) {
+        problems.push({ path, severity: 'error', message: `expected ${schema.type === 'record' ? 'object' : schema.type}, got ${typeOfValue(value)}` });
+        return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        const allowed: string[] = schema.enum.map(v => String(v));
+        problems.push({
+            path,
+            severity: 'error',
+            message: `${JSON.stringify(value)} is not one of ${allowed.join(', ')}`,
+            suggestion: typeof value === 'string' ? closestMatch(value, allowed) : undefined
+        });
+        return;
+    }
+
+    switch (schema.type) {
+        case 'number': {
+            const number = value as number;
+            if (!isFinite(number) || (schema.integer && !Number.isInteger(number))) {
+                problems.push({ path, severity: 'error', message: `expected ${schema.integer ? 'an integer' : 'a finite number'}, got ${number}` });
+            } else if (schema.min !== undefined && number < schema.min) {
+                problems.push({ path, severity: 'error', message: `must be at least ${schema.min}, got ${number}` });
+            }
+            return;
+        }
+        case 'string':
+            if (schema.format) checkFormat(value as string, schema, path, context, problems);
+            return;
+        case 'array':
+            if (schema.items) {
+                (value as unknown[]).forEach((item, i) => checkConfigValue(item, schema.items!, `${path}[${i}]`, context, problems));
+            }
+            return;
+        case 'record':
+            Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+                const itemPath: string = path ? `${path}.${key}` : key;
+                if (schema.keys) checkConfigValue(key, schema.keys, itemPath, context, problems);
+                if (schema.values) checkConfigValue(item, schema.values, itemPath, context, problems);
+            });
+            return;
+        case 'object': {
+            const object = value as Record<string, unknown>;
+            const prefix: string = path ? `${path}.` : '';
+            (schema.required || [])
+                .filter(key => object[key] === undefined)
+                .forEach(key => problems.push({ path: `${prefix}${key}`, severity: 'error', message: 'is required' }));
+            if (!schema.properties) return;
+            const known: string[] = Object.keys(schema.properties);
+            Object.entries(object).forEach(([key, item]) => {
+                const property: ConfigSchema | undefined = schema.properties![key];
+                if (!property) {
+                    problems.push({ path: `${prefix}${key}`, severity: 'warning', message: 'unknown option, ignored', suggestion: closestMatch(key, known) });
+                } else if (item !== undefined) {
+                    checkConfigValue(item, property, `${prefix}${key}`, context, problems);
+                }
+            });
+            return;
+        }
+    }
+}
+
+function formatConfigProblem(problem: ConfigProblem): string {
+    return `${problem.path || 'config'}: ${problem.message}${problem.suggestion ? ` (did you mean "${problem.suggestion}"?)` : ''}`;
+}
+
+type ExportFormat = 'json' | 'csv' | 'sarif' | 'html';
+
+interface ExportedReport {
+    format: ExportFormat;
+    filename: string;
+    mimeType: string;
+    content: string;
+}
+
+// Language and UI text of human-readable reports
+interface ReportText {
+    lang: string;
+    t: (key: keyof UIMessages, params?: Record<string, string | number>) => string;
+    formatImpact: (impact: string | null | undefined) => string;
+}
+
+// Page URLs in SARIF are made relative to `baseUri`, which code-scanning tools know as `uriBaseId`
+interface SarifOptions {
+    /** Symbolic name of the base, e.g. '%SRCROOT%' (defaults to 'SITEROOT') */
+    uriBaseId?: string;
+    /** Absolute URI the base stands for (defaults to the page's origin). Pages outside it keep absolute URIs. */
+    baseUri?: string;
+    /** Where an element starts in the page's HTML source, when known (the headless audit knows it).
+     * Without it, results carry the element's HTML as a snippet and no line. */
+    locate?: (element: Element) => { startLine: number; startColumn?: number } | null;
+}
+
+/**
+ * Report export - serializes a ValidationReport into JSON, CSV, SARIF 2.1 or standalone HTML
+ */
+const TOOL_NAME = 'digiteam-sitefinity-validator';
+const TOOL_URI = 'https://github.com/badg0003/digiteam-sitefinity-validator';
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+    json: 'application/json',
+    csv: 'text/csv',
+    sarif: 'application/sarif+json',
+    html: 'text/html'
+};
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+    json: 'json',
+    csv: 'csv',
+    sarif: 'sarif',
+    html: 'html'
+};
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function escapeCsv(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flatten a report into one row per widget/rule/node
+ */
+function flattenReport(report: ValidationReport): Array<{
+    widgetIndex: number;
+    widget: WidgetReport;
+    type: 'violation' | 'incomplete' | 'suppressed';
+    rule: AxeViolation | AxeIncomplete;
+    node: AxeNode;
+    suppression?: Suppression;
+}> {
+    const rows: ReturnType<typeof flattenReport> = [];
+    report.widgets.forEach((widget, widgetIndex) => {
+        // Incomplete results selected by `includeIncomplete` are among the violations too; they stay incomplete here
+        const incomplete = new Set(widget.incomplete.reduce<string[]>((fingerprints, rule) =>
+            fingerprints.concat(rule.nodes.map(node => fingerprintIssue(rule.id, node, widget.selector))), []));
+        const shown = new Set<string>();
+        widget.violations.forEach(rule => rule.nodes.forEach(node => {
+            const fingerprint: string = fingerprintIssue(rule.id, node, widget.selector);
+            shown.add(fingerprint);
+            rows.push({ widgetIndex, widget, type: incomplete.has(fingerprint) ? 'incomplete' : 'violation', rule, node });
+        }));
+        widget.incomplete.forEach(rule => rule.nodes.forEach(node => {
+            if (!shown.has(fingerprintIssue(rule.id, node, widget.selector))) rows.push({ widgetIndex, widget, type: 'incomplete', rule, node });
+        }));
+        widget.suppressed.forEach(({ violation, node, suppression }) => {
+            rows.push({ widgetIndex, widget, type: 'suppressed', rule: violation, node, suppression });
+        });
+    });
+    return rows;
+}
+
+function describeWidget(widget: WidgetReport, index: number): { index: number; selector: string; id: string } & WidgetInfo {
+    return { index, selector: widget.selector, id: widget.element.id, ...widget.info };
+}
+
+/**
+ * JSON replacer dropping axe's element refs, which only make sense in the live page
+ */
+function omitElementRefs(key: string, value: unknown): unknown {
+    return key === 'element' && (value as Node | null)?.nodeType !== undefined ? undefined : value;
+}
+
+function exportJSON(report: ValidationReport, page: { url: string; title: string }): string {
+    return JSON.stringify({
+        tool: { name: TOOL_NAME, axeVersion: axe.version },
+        page,
+        status: report.status,
+        scope: report.scope,
+        startedAt: new Date(report.startedAt).toISOString(),
+        duration: report.duration,
+        totals: report.totals,
+        gate: report.gate,
+        acknowledgments: report.acknowledgments,
+        widgets: report.widgets.map((widget, index) => ({
+            widget: describeWidget(widget, index),
+            gate: widget.gate,
+            violations: widget.violations,
+            incomplete: widget.incomplete,
+            suppressed: widget.suppressed.map(({ ruleId, node, fingerprint, suppression }) => ({
+                ruleId,
+                fingerprint,
+                target: node.target,
+                html: node.html,
+                suppression
+            })),
+            diff: widget.diff && {
+                added: widget.diff.added.map(({ ruleId, node, fingerprint }) => ({ ruleId, fingerprint, target: node.target, html: node.html })),
+                resolved: widget.diff.resolved.map(({ ruleId, node, fingerprint }) => ({ ruleId, fingerprint, target: node.target, html: node.html })),
+                unchanged: widget.diff.unchanged.length
+            },
+            timings: widget.timings
+        })),
+        pageIssues: report.pageIssues
+    }, omitElementRefs, 2);
+}
+
+function exportCSV(report: ValidationReport): string {
+    const header = [
+        'widget_index', 'widget_selector', 'widget_id', 'widget_label', 'type', 'rule_id', 'impact',
+        'help', 'help_url', 'target', 'html', 'failure_summary', 'fingerprint', 'suppression_reason'
+    ];
+    const rows = flattenReport(report).map(({ widgetIndex, widget, type, rule, node, suppression }) => [
+        widgetIndex,
+        widget.selector,
+        widget.element.id,
+        widget.info.label,
+        type,
+        rule.id,
+        node.impact ?? rule.impact ?? '',
+        rule.help,
+        rule.helpUrl,
+        formatTarget(node.target),
+        node.html,
+        node.failureSummary ?? '',
+        fingerprintIssue(rule.id, node, widget.selector),
+        suppression?.reason ?? ''
+    ].map(escapeCsv).join(','));
+
+    return [header.join(','), ...rows].join('\r\n');
+}
+
+function sarifLevel(impact?: string): 'error' | 'warning' | 'note' {
+    if (impact === 'critical' || impact === 'serious') return 'error';
+    if (impact === 'moderate') return 'warning';
+    return 'note';
+}
+
+/**
+ * SARIF artifact location of the page: relative to the base when the page is under it
+ */
+function sarifArtifactLocation(url: string, base: { uriBaseId: string; baseUri: string }): { uri: string; uriBaseId?: string } {
+    return url.startsWith(base.baseUri)
+        ? { uri: url.slice(base.baseUri.length), uriBaseId: base.uriBaseId }
+        : { uri: url };
+}
+
+function exportSARIF(report: ValidationReport, page: { url: string; title: string }, options: SarifOptions = {}): string {
+    const rows = flattenReport(report);
+    let baseUri: string;
+    try {
+        // SARIF base URIs end with a slash
+        baseUri = new URL(options.baseUri ?? '/', page.url).href.replace(/\/?$/, '/');
+    } catch {
+        baseUri = page.url;
+    }
+    const base = { uriBaseId: options.uriBaseId ?? 'SITEROOT', baseUri };
+    const artifactLocation = sarifArtifactLocation(page.url, base);
+    const region = (node: AxeNode): object => {
+        const location = node.element && options.locate ? options.locate(node.element) : null;
+        return {
+            ...(location ? { startLine: location.startLine, ...(location.startColumn ? { startColumn: location.startColumn } : {}) } : {}),
+            snippet: { text: node.html }
+        };
+    };
+    const pageRows = report.pageIssues.reduce<Array<{ rule: AxeViolation; node: AxeNode }>>((all, rule) =>
+        all.concat(rule.nodes.map(node => ({ rule, node }))), []);
+    const ruleIds: string[] = [];
+    const rules: object[] = [];
+
+    [...rows, ...pageRows].forEach(({ rule }) => {
+        if (ruleIds.includes(rule.id)) return;
+        ruleIds.push(rule.id);
+        rules.push({
+            id: rule.id,
+            shortDescription: { text: rule.help },
+            fullDescription: { text: rule.description },
+            helpUri: rule.helpUrl,
+            properties: { tags: rule.tags }
+        });
+    });
+
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: TOOL_NAME,
+                    informationUri: TOOL_URI,
+                    properties: { axeVersion: axe.version },
+                    rules
+                }
+            },
+            originalUriBaseIds: { [base.uriBaseId]: { uri: base.baseUri } },
+            invocations: [{
+                executionSuccessful: report.status === 'complete',
+                startTimeUtc: new Date(report.startedAt).toISOString()
+            }],
+            results: [...rows.map(({ widgetIndex, widget, type, rule, node, suppression }) => ({
+                ruleId: rule.id,
+                ruleIndex: ruleIds.indexOf(rule.id),
+                // SARIF only allows a level on failures
+                level: type === 'incomplete' ? 'none' : sarifLevel(node.impact ?? rule.impact),
+                kind: type === 'incomplete' ? 'review' : 'fail',
+                message: { text: node.failureSummary || rule.help },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation,
+                        region: region(node)
+                    },
+                    logicalLocations: [{
+                        name: formatTarget(node.target),
+                        fullyQualifiedName: `${widget.selector}[${widgetIndex}] ${formatTarget(node.target)}`,
+                        kind: 'element'
+                    }]
+                }],
+                partialFingerprints: { 'wa11y/v1': fingerprintIssue(rule.id, node, widget.selector) },
+                ...(type === 'violation' && widget.diff
+                    ? { baselineState: widget.diff.added.some(issue => issue.node === node) ? 'new' : 'unchanged' }
+                    : {}),
+                ...(suppression ? { suppressions: [{ kind: 'external', justification: suppression.reason }] } : {}),
+                properties: { widget: describeWidget(widget, widgetIndex) }
+            })), ...pageRows.map(({ rule, node }) => ({
+                ruleId: rule.id,
+                ruleIndex: ruleIds.indexOf(rule.id),
+                level: sarifLevel(node.impact ?? rule.impact),
+                kind: 'fail',
+                message: { text: node.failureSummary || rule.help },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation,
+                        region: region(node)
+                    },
+                    logicalLocations: [{
+                        name: formatTarget(node.target),
+                        fullyQualifiedName: formatTarget(node.target),
+                        kind: 'element'
+                    }]
+                }],
+                partialFingerprints: { 'wa11y/v1': fingerprintIssue(rule.id, node, '') },
+                properties: { pageLevel: true }
+            }))]
+        }]
+    }, null, 2);
+}
+
+function exportHTML(report: ValidationReport, page: { url: string; title: string }, text: ReportText): string {
+    const { t } = text;
+    const formatSection = (heading: string, violations: AxeViolation[]): string => `
+    <section>
+        <h2>${heading} <small>(${escapeHtml(t('panelIssues', { count: violations.length }))})</small></h2>
+        <ul>
+            ${violations.map(v => `
+            <li>
+                <p><strong>[${escapeHtml(v.id)}]</strong> <span class="impact impact-${escapeHtml(v.impact ?? 'unknown')}">${escapeHtml(text.formatImpact(v.impact))}</span> ${escapeHtml(v.help)} <a href="${escapeHtml(v.helpUrl)}">${escapeHtml(t('learnMore', { rule: v.id }))}</a></p>
+                <ul>
+                    ${v.nodes.map(n => `<li><code>${escapeHtml(formatTarget(n.target))}</code><pre>${escapeHtml(n.html)}</pre>${n.failureSummary ? `<p>${escapeHtml(n.failureSummary)}</p>` : ''}</li>`).join('')}
+                </ul>
+            </li>`).join('')}
+        </ul>
+    </section>`;
+    const widgetSections: string = report.widgets
+        .filter(widget => widget.violations.length > 0)
+        .map(widget => formatSection(
+            `${escapeHtml(widget.info.label)}${widget.info.type ? ` <small>${escapeHtml(widget.info.type)}</small>` : ''}`,
+            widget.violations
+        ))
+        .join('') +
+        (report.pageIssues.length ? formatSection(escapeHtml(t('reportPageIssues')), report.pageIssues) : '');
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(text.lang)}">
+<head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(t('reportTitle'))} - ${escapeHtml(page.title)}</title>
+    <style>
+        body{font:14px/1.5 system-ui,-apple-system,Segoe UI,Roboto,Arial,sans-serif;margin:2rem;color:#1a1a1a}
+        h1{font-size:1.5rem}h2{font-size:1.15rem;margin-top:2rem;border-bottom:1px solid #ddd}
+        dl{display:grid;grid-template-columns:max-content 1fr;gap:.25rem 1rem}dt{font-weight:600}
+        pre{background:#f4f4f4;padding:.5rem;overflow:auto;white-space:pre-wrap}
+        .impact{font-weight:600;text-transform:uppercase;font-size:.75rem}
+        .impact-critical,.impact-serious{color:#b00020}.impact-moderate{color:#8a5a00}.impact-minor{color:#555}
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(t('reportTitle'))}</h1>
+    <dl>
+        <dt>${escapeHtml(t('reportPage'))}</dt><dd><a href="${escapeHtml(page.url)}">${escapeHtml(page.title || page.url)}</a></dd>
+        <dt>${escapeHtml(t('reportDate'))}</dt><dd>${escapeHtml(new Date(report.startedAt).toISOString())}</dd>
+        <dt>${escapeHtml(t('reportStatus'))}</dt><dd>${escapeHtml(t(report.status === 'failed' ? 'reportFailed' : 'reportComplete'))}</dd>
+        <dt>${escapeHtml(t('reportWidgets'))}</dt><dd>${escapeHtml(t('reportWidgetCount', { count: report.totals.widgets, withIssues: report.totals.widgetsWithIssues }))}</dd>
+        <dt>${escapeHtml(t('reportIssues'))}</dt><dd>${escapeHtml(t('reportIssueCount', { count: report.totals.violations, nodes: report.totals.nodes }))}</dd>
+        <dt>${escapeHtml(t('reportSuppressed'))}</dt><dd>${report.totals.suppressed}</dd>
+        <dt>${escapeHtml(t('reportEngine'))}</dt><dd>axe-core ${escapeHtml(axe.version)}</dd>
+    </dl>
+    ${widgetSections || `<p>${escapeHtml(t('reportNoIssues'))}</p>`}
+</body>
+</html>
+`;
+}
+
+/**
+ * Serialize a report into the given export format
+ */
+function serializeReport(report: ValidationReport, format: ExportFormat, text: ReportText, sarifOptions?: SarifOptions): ExportedReport {
+    const page = { url: window.location.href, title: document.title };
+    const serializers: Record<ExportFormat, () => string> = {
+        json: () => exportJSON(report, page),
+        csv: () => exportCSV(report),
+        sarif: () => exportSARIF(report, page, sarifOptions),
+        html: () => exportHTML(report, page, text)
+    };
+    if (!serializers[format]) {
+        throw new Error(`[AccessibilityValidator] Unknown export format "${format}"`);
+    }
+
+    const stamp = new Date(report.startedAt).toISOString().replace(/[:.]/g, '-');
+    return {
+        format,
+        filename: `accessibility-report-${stamp}.${EXPORT_EXTENSIONS[format]}`,
+        mimeType: EXPORT_MIME_TYPES[format],
+        content: serializers[format]()
+    };
+}
+
+/**
+ * Audit history - run summaries per page, in localStorage, IndexedDB or a custom store
+ */
+
+/**
+ * LocalStorageHistoryStore - one JSON array per page, under `<prefix>:<page>`
+ */
+class LocalStorageHistoryStore implements HistoryStore {
+    private prefix: string;
+
+    constructor(prefix: string = 'wa11y-history') {
+        this.prefix = prefix;
+    }
+
+    async load(page: string): Promise<HistoryEntry[]> {
+        try {
+            const stored: unknown = JSON.parse(window.localStorage.getItem(`${this.prefix}:${page}`) || '[]');
+            return Array.isArray(stored) ? stored : [];
+        } catch {
+            return [];
+        }
+    }
+
+    async save(page: string, entries: HistoryEntry[]): Promise<void> {
+        window.localStorage.setItem(`${this.prefix}:${page}`, JSON.stringify(entries));
+    }
+
+    async clear(page: string): Promise<void> {
+        window.localStorage.removeItem(`${this.prefix}:${page}`);
+    }
+}
+
+/**
+ * IndexedDBHistoryStore - one record per page in a 'runs' object store
+ */
+class IndexedDBHistoryStore implements HistoryStore {
+    private static readonly OBJECT_STORE = 'runs';
+
+    private databaseName: string;
+    private database: Promise<IDBDatabase> | null = null;
+
+    constructor(databaseName: string = 'wa11y-history') {
+        this.databaseName = databaseName;
+    }
+
+    async load(page: string): Promise<HistoryEntry[]> {
+        const stored: unknown = await this.request('readonly', store => store.get(page));
+        return Array.isArray(stored) ? stored : [];
+    }
+
+    async save(page: string, entries: HistoryEntry[]): Promise<void> {
+        await this.request('readwrite', store => store.put(entries, page));
+    }
+
+    async clear(page: string): Promise<void> {
+        await this.request('readwrite', store => store.delete(page));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise<IDBDatabase>((resolve, reject) => {
+                const request: IDBOpenDBRequest = window.indexedDB.open(this.databaseName, 1);
+                request.onupgradeneeded = (): void => {
+                    request.result.createObjectStore(IndexedDBHistoryStore.OBJECT_STORE);
+                };
+                request.onsuccess = (): void => resolve(request.result);
+                request.onerror = (): void => reject(request.error);
+            });
+            // Let a later call try again, e.g. after the user allows storage
+            this.database.catch(() => { this.database = null; });
+        }
+        return this.database;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const database: IDBDatabase = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const request: IDBRequest<T> = run(database.transaction(IndexedDBHistoryStore.OBJECT_STORE, mode)
+                .objectStore(IndexedDBHistoryStore.OBJECT_STORE));
+            request.onsuccess = (): void => resolve(request.result);
+            request.onerror = (): void => reject(request.error);
+        });
+    }
+}
+
+function createHistoryStore(history: HistoryStoreName | HistoryStore, options: HistoryOptions = {}): HistoryStore {
+    if (typeof history === 'object') return history;
+
+    switch (history) {
+        case 'localStorage':
+            return new LocalStorageHistoryStore(options.storageName);
+        case 'indexedDB':
+            return new IndexedDBHistoryStore(options.storageName);
+        default:
+            throw new Error(`[AccessibilityValidator] Unknown history store "${history}"`);
+    }
+}
+
+/**
+ * Fingerprints of the issues in `entry` that `other` has no occurrence of, matching by key
+ */
+function unmatchedIssues(entry: HistoryEntry | null, other: HistoryEntry | null): string[] {
+    const remaining = new Map<string, number>();
+    (other?.keys ?? []).forEach(key => remaining.set(key, (remaining.get(key) ?? 0) + 1));
+    return (entry?.fingerprints ?? []).filter((fingerprint, index) => {
+        const count: number = remaining.get(entry!.keys[index]) ?? 0;
+        remaining.set(entry!.keys[index], count - 1);
+        return count <= 0;
+    });
+}
+
+/**
+ * Compare the first and latest of a page's runs
+ */
+function summarizeTrend(page: string, entries: HistoryEntry[]): HistoryTrend {
+    const first: HistoryEntry | null = entries[0] ?? null;
+    const latest: HistoryEntry | null = entries[entries.length - 1] ?? null;
+    return {
+        page,
+        runs: entries.length,
+        first,
+        latest,
+        change: (latest?.issues ?? 0) - (first?.issues ?? 0),
+        fixed: unmatchedIssues(first, latest),
+        introduced: unmatchedIssues(latest, first)
+    };
+}
+
+/**
+ * CMS adapters - widget discovery, change-event mapping, editor-mode detection and labelling
+ */
+const EVENT_ID_KEYS: readonly string[] = ['widgetId', 'controlId', 'id'];
+
+/**
+ * Find the widget a CMS event refers to, from a widget id in its detail or the element it was dispatched on
+ */
+function findEventWidget(event: Event, idAttribute: string, widgetSelector: string): Element | null {
+    const detail: unknown = (event as CustomEvent).detail;
+    if (detail && typeof detail === 'object') {
+        for (const key of EVENT_ID_KEYS) {
+            const id: unknown = (detail as Record<string, unknown>)[key];
+            if (typeof id === 'string' && id) {
+                const widget: Element | null = document.querySelector(
+                    `[${idAttribute}="${id.replace(/["\\]/g, '\\$&')}"]`
+                );
+                if (widget) return widget;
+            }
+        }
+    }
+
+    return event.target instanceof Element ? event.target.closest(widgetSelector) : null;
+}
+
+/**
+ * SitefinityAdapter - Sitefinity events, editor detection and (optionally) widget discovery
+ * from the page editor's markup
+ */
+class SitefinityAdapter implements CmsAdapter {
+    readonly name = 'sitefinity';
+
+    private static readonly DEFAULT_OPTIONS: Required<SitefinityAdapterOptions> = {
+        discoverWidgets: false,
+        nameAttribute: 'data-sfname',
+        titleAttribute: 'data-sftitle',
+        idAttribute: 'data-sfid',
+        placeholderAttribute: 'data-sfcontainer',
+        publishSelector: '[data-sf-action="publish"]',
+        events: [
+            'sf:contentModified',
+            'sf:widgetUpdated',
+            'sf:propertyChanged',
+            'sf:designerClosed',
+            'sf:contentSaved'
+        ]
+    };
+
+    private options: Required<SitefinityAdapterOptions>;
+
+    constructor(options: SitefinityAdapterOptions = {}) {
+        this.options = { ...SitefinityAdapter.DEFAULT_OPTIONS, ...options };
+    }
+
+    get events(): string[] {
+        return this.options.events;
+    }
+
+    private get widgetSelector(): string {
+        return `[${this.options.nameAttribute}]`;
+    }
+
+    getWidgetSelectors(): string[] {
+        return this.options.discoverWidgets ? [this.widgetSelector] : [];
+    }
+
+    getWidgetInfo(widget: Element): WidgetInfo | null {
+        const type: string | null = widget.getAttribute(this.options.nameAttribute);
+        if (type === null) return null;
+
+        const title: string | null = widget.getAttribute(this.options.titleAttribute);
+        const id: string | null = widget.getAttribute(this.options.idAttribute);
+        const placeholder: string | null = widget.closest(`[${this.options.placeholderAttribute}]`)
+            ?.getAttribute(this.options.placeholderAttribute) ?? null;
+
+        const info: WidgetInfo = { label: title || type, type };
+        if (id) info.cmsId = id;
+        if (placeholder) info.placeholder = placeholder;
+        return info;
+    }
+
+    getEventWidgets(event: Event): Element[] {
+        const widget: Element | null = findEventWidget(event, this.options.idAttribute, this.widgetSelector);
+        return widget ? [widget] : [];
+    }
+
+    /**
+     * Edit/preview mode: `sfaction=edit|preview` query (ASP.NET Core renderer), `/Action/Edit|Preview`
+     * paths (classic page editor), or widget wrappers present in the markup
+     */
+    isEditorMode(): boolean {
+        const action: string | null = new URLSearchParams(window.location.search).get('sfaction');
+        return (
+            action === 'edit' ||
+            action === 'preview' ||
+            /\/Action\/(Edit|Preview)\b/i.test(window.location.pathname) ||
+            document.querySelector(this.widgetSelector) !== null
+        );
+    }
+
+    getPublishSelector(): string {
+        return this.options.publishSelector;
+    }
+}
+
+/**
+ * DataAttributeAdapter - generic adapter for CMSes that mark widgets with data attributes
+ */
+class DataAttributeAdapter implements CmsAdapter {
+    readonly name = 'data-attribute';
+
+    private static readonly DEFAULT_OPTIONS: Required<DataAttributeAdapterOptions> = {
+        widgetAttribute: 'data-widget',
+        labelAttribute: 'data-widget-label',
+        idAttribute: 'data-widget-id',
+        editorAttribute: 'data-cms-editor',
+        publishAttribute: 'data-cms-publish',
+        events: ['cms:change']
+    };
+
+    private options: Required<DataAttributeAdapterOptions>;
+
+    constructor(options: DataAttributeAdapterOptions = {}) {
+        this.options = { ...DataAttributeAdapter.DEFAULT_OPTIONS, ...options };
+    }
+
+    get events(): string[] {
+        return this.options.events;
+    }
+
+    private get widgetSelector(): string {
+        return `[${this.options.widgetAttribute}]`;
+    }
+
+    getWidgetSelectors(): string[] {
+        return [this.widgetSelector];
+    }
+
+    getWidgetInfo(widget: Element): WidgetInfo | null {
+        const type: string | null = widget.getAttribute(this.options.widgetAttribute);
+        if (type === null) return null;
+
+        const info: WidgetInfo = { label: widget.getAttribute(this.options.labelAttribute) || type || 'Widget' };
+        if (type) info.type = type;
+        const id: string | null = widget.getAttribute(this.options.idAttribute);
+        if (id) info.cmsId = id;
+        return info;
+    }
+
+    getEventWidgets(event: Event): Element[] {
+        const widget: Element | null = findEventWidget(event, this.options.idAttribute, this.widgetSelector);
+        return widget ? [widget] : [];
+    }
+
+    /**
+     * Editor mode: the editor attribute is set on <html> or <body>
+     */
+    isEditorMode(): boolean {
+        return (
+            document.documentElement.hasAttribute(this.options.editorAttribute) ||
+            (document.body?.hasAttribute(this.options.editorAttribute) ?? false)
+        );
+    }
+
+    getPublishSelector(): string {
+        return `[${this.options.publishAttribute}]`;
+    }
+}
+
+/**
+ * NoCmsAdapter - no CMS integration (plain widgetSelectors, no events)
+ */
+class NoCmsAdapter implements CmsAdapter {
+    readonly name = 'none';
+    readonly events: string[] = [];
+
+    getWidgetSelectors(): string[] {
+        return [];
+    }
+
+    getWidgetInfo(): WidgetInfo | null {
+        return null;
+    }
+
+    getEventWidgets(): Element[] {
+        return [];
+    }
+
+    isEditorMode(): boolean {
+        return false;
+    }
+}
+
+/**
+ * Create the adapter selected by the configuration
+ */
+function createCmsAdapter(adapter: CmsAdapterName | CmsAdapter = 'sitefinity', options: CmsAdapterOptions = {}): CmsAdapter {
+    if (typeof adapter === 'object') return adapter;
+
+    switch (adapter) {
+        case 'sitefinity':
+            return new SitefinityAdapter(options as SitefinityAdapterOptions);
+        case 'data-attribute':
+            return new DataAttributeAdapter(options as DataAttributeAdapterOptions);
+        case 'none':
+            return new NoCmsAdapter();
+        default:
+            throw new Error(`[AccessibilityValidator] Unknown CMS adapter "${adapter}"`);
+    }
+}
+
+/**
+ * AccessibilityValidator - Reusable accessibility validation module
+ */
+class AccessibilityValidator implements AccessibilityValidatorAPI {
+    private config: AccessibilityValidatorConfig;
+    private widgetCache = new WeakMap<Element, WidgetState>();
+    private recheckTimeout: number | undefined;
+    private mutationObserver: MutationObserver | null = null;
+    private dirtyWidgets = new Set<Element>();
+    private observerStats: ObserverStats = AccessibilityValidator.createObserverStats();
+    private pendingWidgets = new Set<Element>();
+    private runId = 0;
+    private activeRun: Promise<ValidationReport> | null = null;
+    private axeQueue: Promise<unknown> = Promise.resolve();
+    private lastReport: ValidationReport | null = null;
+    // Run that produced lastReport; cancelled runs resolve with an older report
+    private lastReportRunId = 0;
+    private pageIssues: AxeViolation[] = [];
+    private nodeOwners = new WeakMap<Element, Element[]>();
+    private panel: HTMLElement | null = null;
+    private highlight: HTMLElement | null = null;
+    private liveRegion: HTMLElement | null = null;
+    private storedSuppressions: Suppression[] = [];
+    // Only kept in memory, so entries dropped from the baseline file stop applying on the next load
+    private baselineSuppressions: Suppression[] = [];
+    private customRules = new Map<string, CustomRule>();
+    private axeFrames = new WeakSet<Window>();
+    private shadowStyles = new Map<ShadowRoot, HTMLStyleElement>();
+    private observedRoots = new WeakSet<Node>();
+    private watchedFrames = new WeakSet<Element>();
+    private rulePlan: RulePlan | null = null;
+    private axeLocaleApplied = false;
+    private cmsAdapter: CmsAdapter;
+    private cmsEventNames: string[] = [];
+    private readonly cmsEventHandler = (e: Event): void => this.handleCmsEvent(e);
+    private shadowHost: HTMLElement | null = null;
+    private overlays = new Map<Element, HTMLElement>();
+    private resizeObserver: ResizeObserver | null = null;
+    private repositionFrame: number | undefined;
+    private readonly repositionHandler = (): void => this.scheduleReposition();
+    private panelFilters: { impact: string; rule: string } = { impact: '', rule: '' };
+    private isInitialized = false;
+    private isStarted = false;
+    private enabled: boolean;
+    private toggleButton: HTMLButtonElement | null = null;
+    private acknowledgments: PublishAcknowledgment[] = [];
+    private historyStore: HistoryStore | null;
+    /** Recorded runs of the current page, as of the last write */
+    private history: HistoryEntry[] = [];
+    private historyWrite: Promise<void> = Promise.resolve();
+    private publishBypass = false;
+    private publishPending = false;
+    private closePublishDialog: ((reason: string | null) => void) | null = null;
+    private readonly publishClickHandler = (e: MouseEvent): void => this.handlePublishClick(e);
+    private readonly shortcutHandler = (e: KeyboardEvent): void => this.handleShortcut(e);
+    private readonly recheckEventHandler = (): void => { this.recheckAll(); };
+    private readonly unloadHandler = (): void => this.destroy();
+    private uiClasses: UIClasses;
+
+    // Default configuration
+    private static readonly DEFAULT_CONFIG: Omit<AccessibilityValidatorConfig, 'widgetSelectors'> = {
+        axeRules: [], // Empty array = run ALL rules (comment out specific rules to run everything)
+        // Alternative: Use specific rules for targeted checking
+        // axeRules: [
+        //     'image-alt',
+        //     'role-img-alt', 
+        //     'link-name',
+        //     'image-redundant-alt',
+        //     'svg-img-alt',
+        //     'identical-links-same-purpose'
+        // ],
+        debounceDelay: 300,
+        enableMutationObserver: true,
+        observeCharacterData: true,
+        shadowDom: true,
+        iframes: true,
+        maxRetries: 1,
+        batchSize: 5,
+        idleTimeout: 500,
+        auditScope: 'document',
+        nestedWidgets: 'innermost',
+        exportFormat: 'html',
+        enableSummaryPanel: false,
+        summaryPanelDock: 'right',
+        minImpact: 'minor',
+        qualityGates: [{ fail: { serious: 0 }, warn: { minor: 0 } }],
+        renderMode: 'inline',
+        suppressions: [],
+        suppressionStorageKey: 'wa11y-suppressions',
+        cmsAdapter: 'sitefinity',
+        activation: 'always',
+        toggleShortcut: 'Alt+Shift+A',
+        showToggleButton: false,
+        locale: DEFAULT_LOCALE,
+        guidanceView: 'editor',
+        history: false
+    };
+
+    private static readonly DEFAULT_HISTORY_OPTIONS: Required<Omit<HistoryOptions, 'pageKey' | 'storageName'>> = {
+        maxEntries: 100,
+        minInterval: 5 * 60 * 1000
+    };
+
+    // Runs drawn in the summary panel's trend line
+    private static readonly TREND_POINTS = 30;
+
+    private static readonly DEFAULT_ACTIVATION: Required<Omit<ActivationPolicy, 'roleCheck'>> = {
+        editorMode: true,
+        queryParam: 'wa11y',
+        cookie: 'wa11y',
+        storageKey: 'wa11y-enabled'
+    };
+
+    // Events dispatched by the validator
+    static readonly EVENTS = {
+        /** Dispatched on each audited widget (bubbles), detail: WidgetReport */
+        WIDGET_VALIDATED: 'wa11y:widget-validated',
+        /** Dispatched on document after a successful run, detail: ValidationReport */
+        RUN_COMPLETE: 'wa11y:run-complete',
+        /** Dispatched on document when axe fails after retries, detail: RunFailedDetail */
+        RUN_FAILED: 'wa11y:run-failed',
+        /** Dispatched on document when the publish guard holds a publish, detail: ValidationReport */
+        PUBLISH_BLOCKED: 'wa11y:publish-blocked',
+        /** Dispatched on document when an editor publishes with blocking issues, detail: PublishAcknowledgment */
+        PUBLISH_ACKNOWLEDGED: 'wa11y:publish-acknowledged'
+    } as const;
+
+    private static popupCounter = 0;
+
+    // Tag added to every custom rule, so they can be selected with `axeTags`
+    static readonly CUSTOM_RULE_TAG = 'wa11y-custom';
+
+    private static readonly WCAG21AA_TAGS: readonly string[] = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+    // Rules about page templates and ARIA implementation that editors can't fix from the CMS
+    private static readonly DEVELOPER_RULES: readonly string[] = [
+        'html-has-lang', 'html-lang-valid', 'html-xml-lang-mismatch', 'document-title',
+        'meta-viewport', 'meta-viewport-large', 'meta-refresh', 'bypass', 'skip-link', 'region',
+        'landmark-one-main', 'landmark-no-duplicate-main', 'landmark-no-duplicate-banner', 'landmark-no-duplicate-contentinfo',
+        'landmark-banner-is-top-level', 'landmark-complementary-is-top-level', 'landmark-contentinfo-is-top-level',
+        'landmark-main-is-top-level', 'landmark-unique', 'page-has-heading-one',
+        'duplicate-id', 'duplicate-id-active', 'duplicate-id-aria',
+        'aria-allowed-attr', 'aria-allowed-role', 'aria-conditional-attr', 'aria-deprecated-role', 'aria-hidden-body',
+        'aria-prohibited-attr', 'aria-required-attr', 'aria-required-children', 'aria-required-parent',
+        'aria-roles', 'aria-valid-attr', 'aria-valid-attr-value', 'aria-braille-equivalent',
+        'frame-focusable-content', 'nested-interactive', 'scrollable-region-focusable', 'server-side-image-map',
+        'css-orientation-lock', 'avoid-inline-spacing', 'autocomplete-valid', 'tabindex'
+    ];
+
+    private static readonly PRESETS: Record<PresetName, RulePreset> = {
+        'wcag2a': { tags: ['wcag2a'] },
+        'wcag2aa': { tags: ['wcag2a', 'wcag2aa'] },
+        'wcag21aa': { tags: [...AccessibilityValidator.WCAG21AA_TAGS] },
+        'wcag22aa': { tags: [...AccessibilityValidator.WCAG21AA_TAGS, 'wcag22aa'] },
+        'section508': { tags: ['section508'] },
+        'en301549': { tags: ['EN-301-549'] },
+        'best-practice': { tags: ['best-practice'] },
+        'content-editor': { tags: [...AccessibilityValidator.WCAG21AA_TAGS], excludeRules: [...AccessibilityValidator.DEVELOPER_RULES] }
+    };
+
+    private static readonly IMPACT_ORDER: readonly Impact[] = ['minor', 'moderate', 'serious', 'critical'];
+    private static readonly IMPACT_MESSAGES: Record<Impact, keyof UIMessages> = {
+        minor: 'impactMinor',
+        moderate: 'impactModerate',
+        serious: 'impactSerious',
+        critical: 'impactCritical'
+    };
+    private static readonly GATE_STATUSES: readonly GateStatus[] = ['pass', 'warn', 'fail'];
+
+    private static readonly DEFAULT_OBSERVED_ATTRIBUTES: readonly string[] = [
+        'aria-*', 'role', 'hidden', 'tabindex', 'lang', 'dir', 'style', 'id',
+        'alt', 'src', 'href', 'title',
+        'for', 'name', 'type', 'value', 'placeholder', 'disabled', 'required', 'readonly', 'autocomplete'
+    ];
+
+    constructor(config: AccessibilityValidatorConfig) {
+        AccessibilityValidator.assertValidConfig(config);
+        this.config = this.mergeConfig(config);
+        this.uiClasses = this.createUIClasses();
+        this.cmsAdapter = createCmsAdapter(this.config.cmsAdapter, this.config.cmsAdapterOptions);
+        this.historyStore = this.config.history ? createHistoryStore(this.config.history, this.config.historyOptions) : null;
+        this.storedSuppressions = this.readStoredSuppressions();
+        // Under an activation policy nothing runs until the policy has been evaluated
+        this.enabled = !this.config.activation || this.config.activation === 'always';
+        AccessibilityValidator.snapshotAxeLocale(axe);
+        (this.config.customRules || []).forEach(rule => this.configureRule(rule));
+        this.applyAxeLocale();
+        this.initialize();
+    }
+
+    /**
+     * Merge user config with defaults
+     */
+    private mergeConfig(userConfig: AccessibilityValidatorConfig): AccessibilityValidatorConfig {
+        const merged = {
+            ...AccessibilityValidator.DEFAULT_CONFIG,
+            ...userConfig,
+            axeRules: userConfig.axeRules || AccessibilityValidator.DEFAULT_CONFIG.axeRules!
+        };
+
+        if (!merged.observedAttributes) {
+            merged.observedAttributes = [...AccessibilityValidator.DEFAULT_OBSERVED_ATTRIBUTES];
+        }
+
+        // Auto-detect debug logging if not specified
+        if (merged.enableDebugLogging === undefined) {
+            merged.enableDebugLogging = window.location.hostname === 'localhost' ||
+                                      AccessibilityValidator.readQueryFlag('wa11y-debug') ||
+                                      AccessibilityValidator.readStorageFlag('wa11y-debug');
+        }
+
+        return merged;
+    }
+
+    /**
+     * Check a config without creating a validator, e.g. in build scripts. Selectors are only
+     * checked where there is a DOM.
+     */
+    static validateConfig(config: unknown): ConfigValidationResult {
+        const customRules: unknown = (config as { customRules?: unknown } | null)?.customRules;
+        const customRuleIds: string[] = Array.isArray(customRules)
+            ? customRules.map(rule => rule?.id).filter((id): id is string => typeof id === 'string')
+            : [];
+        const rules = axe.getRules();
+        let classNames: string[] | null | undefined;
+
+        const context: ConfigValidationContext = {
+            ruleIds: [...rules.map(rule => rule.ruleId), ...customRuleIds],
+            tags: Array.from(new Set(rules.reduce<string[]>((tags, rule) => tags.concat(rule.tags), [AccessibilityValidator.CUSTOM_RULE_TAG]))),
+            presets: Object.keys(AccessibilityValidator.PRESETS),
+            classNames: () => {
+                if (classNames === undefined) {
+                    classNames = typeof document === 'undefined' || document.readyState === 'loading'
+                        ? null
+                        : Array.from(new Set(Array.from(document.querySelectorAll('[class]'))
+                            .reduce<string[]>((names, element) => names.concat(Array.from(element.classList)), [])));
+                }
+                return classNames;
+            }
+        };
+
+        const problems: ConfigProblem[] = [];
+        checkConfigValue(config, CONFIG_SCHEMA, '', context, problems);
+        // Without a dialog a blocked page could never be acknowledged, so publishing would stay blocked
+        const { publishGuard, renderMode } = (typeof config === 'object' && config !== null ? config : {}) as AccessibilityValidatorConfig;
+        if (publishGuard && renderMode === 'none') {
+            problems.push({
+                path: 'publishGuard',
+                severity: 'error',
+                message: 'can\'t be used with renderMode "none"; call guardPublish() from the publish flow instead'
+            });
+        }
+        return { valid: !problems.some(problem => problem.severity === 'error'), problems };
+    }
+
+    /**
+     * Log config warnings and throw on errors, before the config is used. With `changedKeys`,
+     * warnings are only logged for those options.
+     */
+    private static assertValidConfig(config: AccessibilityValidatorConfig, changedKeys?: string[]): void {
+        const { valid, problems } = AccessibilityValidator.validateConfig(config);
+        const isChanged = (path: string): boolean => !changedKeys ||
+            changedKeys.some(key => path === key || path.startsWith(`${key}.`) || path.startsWith(`${key}[`));
+
+        problems
+            .filter(problem => problem.severity === 'warning' && isChanged(problem.path))
+            .forEach(problem => console.warn(`[AccessibilityValidator] ${formatConfigProblem(problem)}`));
+        if (!valid) {
+            const errors: string[] = problems
+                .filter(problem => problem.severity === 'error')
+                .map(problem => `  - ${formatConfigProblem(problem)}`);
+            throw new Error(`[AccessibilityValidator] Invalid config:\n${errors.join('\n')}`);
+        }
+    }
+
+    /**
+     * Create UI class names (allow customization)
+     */
+    private createUIClasses(): UIClasses {
+        const defaults: UIClasses = {
+            OUTLINE: 'wa11y-outline',
+            BADGE: 'wa11y-badge',
+            POPUP: 'wa11y-popup',
+            CLOSE: 'wa11y-close',
+            EXPORT: 'wa11y-export',
+            PANEL: 'wa11y-panel',
+            HIGHLIGHT: 'wa11y-highlight',
+            LIVE: 'wa11y-live',
+            HOST: 'wa11y-host',
+            OVERLAY: 'wa11y-overlay',
+            TOGGLE: 'wa11y-toggle',
+            MODAL: 'wa11y-modal'
+        };
+
+        return { ...defaults, ...(this.config.uiClasses || {}) } as UIClasses;
+    }
+
+    /**
+     * Localization: a UI string from `translations` or the built-in catalogs, for the
+     * locale or the closest one it falls back to
+     */
+    private t(key: keyof UIMessages, params?: Record<string, string | number>): string {
+        const locale: string = this.config.locale!;
+        for (const candidate of getLocaleChain(locale)) {
+            const message: string | PluralMessage | undefined =
+                this.config.translations?.[candidate]?.ui?.[key] ?? UI_MESSAGES[candidate]?.[key];
+            if (message !== undefined) return formatMessage(message, locale, params);
+        }
+        return key;
+    }
+
+    private formatImpact(impact: string | null | undefined): string {
+        const key: keyof UIMessages | undefined = AccessibilityValidator.IMPACT_MESSAGES[impact as Impact];
+        return key ? this.t(key) : impact ?? '';
+    }
+
+    /**
+     * Translated text of a rule; more specific locales win over their fallbacks
+     */
+    private getRuleTranslation(ruleId: string): RuleTranslation {
+        return getLocaleChain(this.config.locale!)
+            .reverse()
+            .reduce<RuleTranslation>((text, locale) => ({ ...text, ...this.config.translations?.[locale]?.rules?.[ruleId] }), {});
+    }
+
+    /**
+     * Editor guidance for a rule: `translations` for the locale chain, then `guidance`, then the
+     * built-in catalogs. Rules editors can't fix point them to a developer.
+     */
+    private getGuidance(ruleId: string): RuleGuidance | null {
+        const chain: string[] = getLocaleChain(this.config.locale!);
+        const guidance: RuleGuidance | false | undefined =
+            chain.map(locale => this.config.translations?.[locale]?.guidance?.[ruleId]).find(entry => entry !== undefined) ??
+            this.config.guidance?.[ruleId] ??
+            chain.map(locale => RULE_GUIDANCE[locale]?.[ruleId]).find(entry => entry !== undefined);
+        if (guidance !== undefined) return guidance || null;
+        return AccessibilityValidator.DEVELOPER_RULES.includes(ruleId) || ruleId.startsWith('aria-')
+            ? { summary: this.t('guidanceDeveloper') }
+            : null;
+    }
+
+    /**
+     * The axe locale to apply: `axeLocale` plus translated help and descriptions of axe's
+     * own rules, or null to keep axe's English
+     */
+    private buildAxeLocale(): AxeLocale | null {
+        const ruleIds: Set<string> = new Set(getLocaleChain(this.config.locale!).reduce<string[]>((ids, locale) =>
+            ids.concat(Object.keys(this.config.translations?.[locale]?.rules || {})), []));
+        const axeRuleIds: Set<string> = new Set(axe.getRules().map(rule => rule.ruleId));
+        const rules: Record<string, { description?: string; help?: string }> = { ...this.config.axeLocale?.rules };
+
+        // Custom rules are translated when they're configured; axe rejects locales for unknown rules
+        ruleIds.forEach(ruleId => {
+            if (this.customRules.has(ruleId) || !axeRuleIds.has(ruleId)) return;
+            const { help, description } = this.getRuleTranslation(ruleId);
+            rules[ruleId] = { ...rules[ruleId], ...(help ? { help } : {}), ...(description ? { description } : {}) };
+        });
+
+        if (!this.config.axeLocale && !Object.keys(rules).length) return null;
+        return { ...this.config.axeLocale, lang: this.config.axeLocale?.lang ?? this.config.locale!, rules };
+    }
+
+    private applyAxeLocale(): void {
+        const locale: AxeLocale | null = this.buildAxeLocale();
+        if (!locale) return;
+        try {
+            // axe's typings want both help and description per rule; it merges partial entries fine
+            (axe as AxeCore).configure({ locale });
+            this.axeLocaleApplied = true;
+        } catch (err) {
+            // e.g. a locale file from another axe-core version naming rules this version lacks
+            console.warn('[AccessibilityValidator] Could not apply the axe locale', err);
+        }
+    }
+
+    /**
+     * axe snapshots its English messages the first time a locale is applied (a no-op after that).
+     * Take it before custom rules are registered: axe rejects locales naming rules it doesn't
+     * know, so restoring the snapshot would fail once they are unregistered.
+     */
+    private static snapshotAxeLocale(instance: Pick<AxeCore, 'configure'>): void {
+        instance.configure({ locale: {} });
+    }
+
+    /**
+     * Back to axe's English messages by re-applying its snapshot. axe.reset() would do the same
+     * but also drop the page's own axe config and other validators' custom rules.
+     */
+    private resetAxeLocale(): void {
+        const english: AxeLocale | null | undefined = (axe as AxeCore)._audit?._defaultLocale;
+        if (!this.axeLocaleApplied || !english) return;
+        (axe as AxeCore).configure({ locale: english });
+        this.axeLocaleApplied = false;
+    }
+
+    /**
+     * Initialize the validator
+     */
+    private initialize(): void {
+        if (this.isInitialized) return;
+        
+        if (document.readyState === 'loading') {
+            document.addEventListener('DOMContentLoaded', () => this.activate());
+        } else {
+            this.activate();
+        }
+        
+        this.isInitialized = true;
+    }
+
+    /**
+     * Start if the activation policy allows it
+     */
+    private activate(): void {
+        if (!this.shouldActivate()) {
+            if (this.config.enableDebugLogging) {
+                console.log('[AccessibilityValidator] Not activated: activation policy not met');
+            }
+            return;
+        }
+        this.start();
+    }
+
+    /**
+     * Activation flags: query parameter, cookie and localStorage
+     */
+    private static readQueryFlag(name: string): boolean {
+        const value: string | null = new URLSearchParams(window.location.search).get(name);
+        return value !== null && !['0', 'false', 'off'].includes(value.toLowerCase());
+    }
+
+    private static readCookieFlag(name: string): boolean {
+        return document.cookie.split(';').some(pair => {
+            const [key, value = ''] = pair.trim().split('=');
+            return key === name && !['0', 'false', 'off'].includes(value.toLowerCase());
+        });
+    }
+
+    private static readStorageFlag(key: string): boolean {
+        try {
+            const value: string | null = window.localStorage.getItem(key);
+            return value === 'true' || value === '1';
+        } catch {
+            return false;
+        }
+    }
+
+    private shouldActivate(): boolean {
+        const activation = this.config.activation;
+        if (!activation || activation === 'always') return true;
+
+        const policy = { ...AccessibilityValidator.DEFAULT_ACTIVATION, ...activation };
+        return (
+            (policy.editorMode && this.cmsAdapter.isEditorMode()) ||
+            (policy.queryParam !== false && AccessibilityValidator.readQueryFlag(policy.queryParam)) ||
+            (policy.cookie !== false && AccessibilityValidator.readCookieFlag(policy.cookie)) ||
+            (policy.storageKey !== false && AccessibilityValidator.readStorageFlag(policy.storageKey)) ||
+            (typeof policy.roleCheck === 'function' && policy.roleCheck())
+        );
+    }
+
+    /**
+     * Start validation and watching
+     */
+    private start(): void {
+        if (this.isStarted) return;
+        this.isStarted = true;
+        this.enabled = true;
+
+        this.injectCSS();
+        this.setupEventListeners();
+        this.renderToggleButton();
+
+        if (this.config.baselineUrl) {
+            // The first run waits for the baseline, so baselined issues are never shown
+            this.loadBaseline(this.config.baselineUrl)
+                .catch((err: unknown): void => {
+                    if (this.config.enableDebugLogging) {
+                        console.warn('[AccessibilityValidator] Failed to load baseline', err);
+                    }
+                })
+                .then(() => this.recheckAll());
+        } else {
+            this.recheckAll();
+        }
+        if (this.config.enableMutationObserver) {
+            this.startWatching();
+        }
+    }
+
+    /**
+     * Get widget selectors: configured ones plus any discovered by the CMS adapter
+     */
+    private getWidgetSelectors(): string[] {
+        return [...this.config.widgetSelectors, ...this.cmsAdapter.getWidgetSelectors()];
+    }
+
+    /**
+     * Get combined selector string
+     */
+    private getCombinedSelector(): string {
+        const selectors: string[] = this.getWidgetSelectors();
+        // Never-matching selector so an empty list doesn't throw
+        return selectors.length ? selectors.join(', ') : ':not(*)';
+    }
+
+    /**
+     * Check if element matches any widget selector
+     */
+    private isTargetWidget(element: Element): boolean {
+        return this.getWidgetSelectors().some(selector => element.matches(selector));
+    }
+
+    /**
+     * Get the first widget selector an element matches
+     */
+    private getMatchedSelector(element: Element): string {
+        return this.getWidgetSelectors().find(selector => element.matches(selector)) ?? '';
+    }
+
+    /**
+     * Describe a widget for reports and UI (CMS label when available)
+     */
+    private getWidgetInfo(widget: Element): WidgetInfo {
+        const cmsInfo: WidgetInfo | null = this.cmsAdapter.getWidgetInfo(widget);
+        if (cmsInfo) return cmsInfo;
+
+        const selector: string = this.getMatchedSelector(widget);
+        return { label: widget.id ? `${selector} #${widget.id}` : selector };
+    }
+
+    /**
+     * Get all widgets in document (and in open shadow roots)
+     */
+    private getAllWidgets(): Element[] {
+        return this.queryWidgets(document);
+    }
+
+    private queryWidgets(root: ParentNode): Element[] {
+        const selector: string = this.getCombinedSelector();
+        return this.config.shadowDom ? querySelectorAllDeep(root, selector) : Array.from(root.querySelectorAll(selector));
+    }
+
+    /**
+     * Get the widgets enclosing a node (including the node itself if it is a widget),
+     * across shadow root and frame boundaries
+     */
+    private getEnclosingWidgets(node: Node): Element[] {
+        const selector: string = this.getCombinedSelector();
+        const widgets: Element[] = [];
+        let current: Element | null = node.nodeType === Node.ELEMENT_NODE ? node as Element : getComposedParent(node);
+
+        while (current) {
+            if (current.matches(selector)) widgets.push(current);
+            current = getComposedParent(current);
+        }
+        return widgets;
+    }
+
+    /**
+     * Get the widgets a node belongs to: enclosing widgets plus any widgets it contains
+     */
+    private getWidgetsForNode(node: Node): Element[] {
+        const widgets: Element[] = this.getEnclosingWidgets(node);
+        if (node.nodeType === Node.ELEMENT_NODE) {
+            widgets.push(...this.queryWidgets(node as Element));
+        }
+        return widgets;
+    }
+
+    /**
+     * Mark widgets as needing a recheck
+     */
+    private markDirty(widgets: Element[]): void {
+        widgets.forEach(widget => this.dirtyWidgets.add(widget));
+    }
+
+    /**
+     * Check if element is our UI component
+     */
+    private isOurUIElement(element: Element | null): boolean {
+        if (!element?.classList) return false;
+        
+        return (
+            element.classList.contains(this.uiClasses.BADGE) ||
+            element.classList.contains(this.uiClasses.POPUP) ||
+            element.classList.contains(this.uiClasses.PANEL) ||
+            element.classList.contains(this.uiClasses.HIGHLIGHT) ||
+            element.classList.contains(this.uiClasses.LIVE) ||
+            element.classList.contains(this.uiClasses.HOST) ||
+            element.classList.contains(this.uiClasses.TOGGLE) ||
+            element.closest(`.${this.uiClasses.MODAL}`) !== null ||
+            element.closest(`.${this.uiClasses.TOGGLE}`) !== null ||
+            element.closest(`.${this.uiClasses.BADGE}`) !== null ||
+            element.closest(`.${this.uiClasses.POPUP}`) !== null ||
+            element.closest(`.${this.uiClasses.PANEL}`) !== null
+        );
+    }
+
+    /**
+     * Widget state management
+     */
+    private getWidgetState(widget: Element): WidgetState {
+        return this.widgetCache.get(widget) || { lastViolationCount: -1, newIssueCount: 0, gateStatus: null, hasUI: false, violations: [], report: null };
+    }
+    
+    private setWidgetState(widget: Element, state: Partial<WidgetState>): void {
+        this.widgetCache.set(widget, { ...this.getWidgetState(widget), ...state });
+    }
+
+    /**
+     * Create UI elements
+     */
+    private createBadge(violationCount: number, newCount: number = 0, gateStatus: GateStatus = 'pass'): HTMLButtonElement {
+        const btn: HTMLButtonElement = document.createElement('button');
+        btn.type = 'button';
+        btn.className = `${this.uiClasses.BADGE} ${this.uiClasses.BADGE}--${gateStatus}`;
+        btn.setAttribute('aria-haspopup', 'dialog');
+        btn.setAttribute('aria-expanded', 'false');
+        btn.setAttribute('aria-label', this.t('badgeLabel', { count: violationCount }) +
+            (newCount ? this.t('badgeLabelNew', { count: newCount }) : '') +
+            (gateStatus === 'fail' ? this.t('badgeLabelFail') : gateStatus === 'warn' ? this.t('badgeLabelWarn') : ''));
+        btn.lang = this.config.locale!;
+        btn.title = this.t('badgeTitle');
+        btn.innerHTML = `
+            <span class="${this.uiClasses.BADGE}__icon" aria-hidden="true">
+                ${this.createIcon()}
+            </span>
+            ${escapeHtml(this.t('badgeIssues', { count: violationCount }))}
+            ${newCount ? `<span class="${this.uiClasses.BADGE}__new">${escapeHtml(this.t('badgeNew', { count: newCount }))}</span>` : ''}
+        `;
+        return btn;
+    }
+
+    private createPopup(violations: AxeViolation[], newNodes: Set<AxeNode> = new Set()): PopupElement {
+        const popup: PopupElement = document.createElement('div') as PopupElement;
+        const id: string = `wa11y-popup-${++AccessibilityValidator.popupCounter}`;
+        popup.id = id;
+        popup.className = this.uiClasses.POPUP;
+        // Not modal: the page stays usable around it and a click outside closes it
+        popup.setAttribute('role', 'dialog');
+        popup.setAttribute('aria-labelledby', `${id}-title`);
+        popup.setAttribute('tabindex', '-1');
+        popup.setAttribute('hidden', '');
+        popup.lang = this.config.locale!;
+        popup.dataset.view = this.config.guidanceView;
+        const viewLabels: Record<GuidanceView, keyof UIMessages> = { editor: 'viewEditor', developer: 'viewDeveloper' };
+        popup.innerHTML = `
+            <div class="${this.uiClasses.POPUP}__hdr">
+                <h2 class="${this.uiClasses.POPUP}__ttl" id="${id}-title">${escapeHtml(this.t('popupTitle'))}</h2>
+                <div class="${this.uiClasses.POPUP}__view" role="group" aria-label="${escapeHtml(this.t('viewLabel'))}">
+                    ${(Object.keys(viewLabels) as GuidanceView[]).map(view =>
+                        `<button type="button" data-view="${view}" aria-pressed="${view === this.config.guidanceView}">${escapeHtml(this.t(viewLabels[view]))}</button>`
+                    ).join('')}
+                </div>
+                <button type="button" class="${this.uiClasses.EXPORT}">${escapeHtml(this.t('downloadReport'))}</button>
+                <button type="button" class="${this.uiClasses.CLOSE}" aria-label="${escapeHtml(this.t('close'))}">${this.createCloseIcon()}</button>
+            </div>
+            <ul class="wa11y-list">
+                ${violations.map(violation => this.formatViolation(violation, newNodes)).join('')}
+            </ul>
+        `;
+        return popup;
+    }
+
+    private createIcon(): string {
+        return `<svg viewBox="0 0 24 24" fill="none" aria-hidden="true">
+            <path d="M12 3l9 16H3L12 3z" stroke="#f0b429" stroke-width="1.5" fill="none"/>
+            <path d="M12 8v6" stroke="#f0b429" stroke-width="1.5"/>
+            <circle cx="12" cy="16.5" r="1" fill="#f0b429"/>
+        </svg>`;
+    }
+
+    private createCloseIcon(): string {
+        return `<svg viewBox="0 0 24 24" fill="none" aria-hidden="true">
+            <path d="M18 6L6 18M6 6l12 12" stroke="currentColor" stroke-width="2" stroke-linecap="round"/>
+        </svg>`;
+    }
+
+    private formatViolation(violation: AxeViolation, newNodes: Set<AxeNode>): string {
+        const isNew: boolean = violation.nodes.some(node => newNodes.has(node));
+        return `<li class="wa11y-item${isNew ? ' wa11y-item--new' : ''}" tabindex="-1">
+            <div class="wa11y-rule">[${escapeHtml(violation.id)}] ${escapeHtml(this.formatImpact(violation.impact))}${isNew ? ` <span class="wa11y-new">${escapeHtml(this.t('newIssue'))}</span>` : ''}</div>
+            <div class="wa11y-msg">${escapeHtml(violation.help || violation.description || '')}</div>
+            ${this.formatGuidance(violation.id)}
+            ${violation.helpUrl ? `<a class="wa11y-link wa11y-dev" href="${escapeHtml(violation.helpUrl)}" target="_blank" rel="noopener noreferrer">${escapeHtml(this.t('learnMore', { rule: violation.id }))}</a>` : ''}
+            <ul class="wa11y-nodes">
+                ${violation.nodes.map(node => this.formatNode(node, newNodes.has(node))).join('')}
+            </ul>
+        </li>`;
+    }
+
+    private formatGuidance(ruleId: string): string {
+        const guidance: RuleGuidance | null = this.getGuidance(ruleId);
+        if (!guidance) return '';
+        const steps: string = guidance.steps?.length
+            ? `<div class="wa11y-guidance__steps">${escapeHtml(this.t('guidanceSteps'))}</div>
+               <ol>${guidance.steps.map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ol>`
+            : '';
+        return `<div class="wa11y-guidance">
+            <p>${escapeHtml(guidance.summary)}</p>
+            ${steps}
+        </div>`;
+    }
+
+    private formatNode(node: AxeNode, isNew: boolean = false): string {
+        const target: string = formatTarget(node.target);
+        const checks: string = ([
+            [this.t('fixAny'), node.any],
+            [this.t('fixAll'), node.all],
+            [this.t('fixNone'), node.none]
+        ] as Array<[string, AxeCheckResult[]]>)
+            .filter(([, results]) => results.length > 0)
+            .map(([label, results]) => `
+                <div class="wa11y-checks__group">${escapeHtml(label)}:</div>
+                <ul class="wa11y-checks__list">
+                    ${results.map(check => `<li>${escapeHtml(check.message)} <span class="wa11y-checks__id">(${escapeHtml(check.id)})</span></li>`).join('')}
+                </ul>`)
+            .join('');
+
+        return `<li class="wa11y-node${isNew ? ' wa11y-node--new' : ''}" data-target="${escapeHtml(JSON.stringify(node.target))}">
+            <button type="button" class="wa11y-node__target" title="${escapeHtml(this.t('highlightElement'))}">${escapeHtml(target)}</button>${isNew ? ` <span class="wa11y-new">${escapeHtml(this.t('newIssue'))}</span>` : ''}
+            <pre class="wa11y-snippet wa11y-dev"><code>${escapeHtml(node.html)}</code></pre>
+            ${node.failureSummary ? `<div class="wa11y-summary wa11y-dev">${escapeHtml(node.failureSummary)}</div>` : ''}
+            ${checks ? `<details class="wa11y-checks wa11y-dev"><summary>${escapeHtml(this.t('checkDetails'))}</summary>${checks}</details>` : ''}
+        </li>`;
+    }
+
+    /**
+     * Element highlighting for popup nodes
+     */
+    private resolveNodeElement(nodeItem: Element, widget: Element): Element | null {
+        const target: string | null = nodeItem.getAttribute('data-target');
+        if (!target) return null;
+        // Prefer the widget's own element ref: the selector may match a copy in another widget
+        const node: AxeNode | undefined = this.getWidgetState(widget).report?.nodes
+            .find(n => n.element && JSON.stringify(n.target) === target);
+        if (node) return node.element!;
+        try {
+            const element: Element | null = resolveTarget(JSON.parse(target));
+            return element && containsComposed(widget, element) ? element : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private showHighlight(element: Element): void {
+        if (!this.highlight) {
+            this.highlight = document.createElement('div');
+            this.highlight.className = this.uiClasses.HIGHLIGHT;
+            this.highlight.setAttribute('aria-hidden', 'true');
+        }
+        if (!this.highlight.isConnected) {
+            this.getUIRoot().appendChild(this.highlight);
+        }
+
+        const rect: DOMRect = element.getBoundingClientRect();
+        let top: number = rect.top;
+        let left: number = rect.left;
+        // Elements in frames are positioned relative to their frame's viewport
+        for (let frame = element.ownerDocument.defaultView?.frameElement; frame; frame = frame.ownerDocument.defaultView?.frameElement) {
+            const frameRect: DOMRect = frame.getBoundingClientRect();
+            top += frameRect.top + frame.clientTop;
+            left += frameRect.left + frame.clientLeft;
+        }
+        Object.assign(this.highlight.style, {
+            top: `${top + window.scrollY}px`,
+            left: `${left + window.scrollX}px`,
+            width: `${rect.width}px`,
+            height: `${rect.height}px`
+        });
+        this.highlight.removeAttribute('hidden');
+    }
+
+    private hideHighlight(): void {
+        this.highlight?.setAttribute('hidden', '');
+    }
+
+    /**
+     * Setup UI interactions
+     */
+    private setupUIInteractions(btn: HTMLButtonElement, popup: PopupElement, widget: Element): void {
+        const open = (): void => {
+            popup.removeAttribute('hidden');
+            btn.setAttribute('aria-expanded', 'true');
+            popup.focus();
+        };
+        
+        const close = (restoreFocus: boolean = false): void => {
+            if (popup.hasAttribute('hidden')) return;
+            popup.setAttribute('hidden', '');
+            btn.setAttribute('aria-expanded', 'false');
+            this.hideHighlight();
+            if (restoreFocus) btn.focus();
+        };
+
+        const closeOthers = (): void => {
+            this.getUIRoot().querySelectorAll<PopupElement>(`.${this.uiClasses.POPUP}:not([hidden])`).forEach(p => {
+                if (p !== popup) p._close ? p._close() : p.setAttribute('hidden', '');
+            });
+        };
+
+        btn.addEventListener('click', (e: Event): void => {
+            e.stopPropagation();
+            const willOpen: boolean = popup.hasAttribute('hidden');
+            closeOthers();
+            willOpen ? open() : close();
+        });
+
+        const closeButton = popup.querySelector<HTMLButtonElement>(`.${this.uiClasses.CLOSE}`);
+        if (closeButton) {
+            closeButton.addEventListener('click', (e: Event): void => {
+                e.stopPropagation();
+                close(true);
+            });
+        }
+
+        const exportButton = popup.querySelector<HTMLButtonElement>(`.${this.uiClasses.EXPORT}`);
+        if (exportButton) {
+            exportButton.addEventListener('click', (e: Event): void => {
+                e.stopPropagation();
+                this.downloadReport();
+            });
+        }
+
+        // Keyboard: Escape closes, Tab is trapped inside the dialog, arrows move between issues
+        popup.addEventListener('keydown', (e: KeyboardEvent): void => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                e.stopPropagation();
+                close(true);
+            } else if (e.key === 'Tab') {
+                this.trapFocus(popup, e);
+            } else if (['ArrowDown', 'ArrowUp', 'Home', 'End'].includes(e.key)) {
+                const items: HTMLElement[] = Array.from(popup.querySelectorAll<HTMLElement>('.wa11y-item'));
+                const active: Element | null = (popup.getRootNode() as Document | ShadowRoot).activeElement;
+                const current: number = items.findIndex(item => item.contains(active));
+                const last: number = items.length - 1;
+                const next: number = e.key === 'Home' ? 0 :
+                                     e.key === 'End' ? last :
+                                     e.key === 'ArrowDown' ? Math.min(current + 1, last) :
+                                     Math.max(current - 1, 0);
+                if (items[next]) {
+                    e.preventDefault();
+                    items[next].focus();
+                }
+            }
+        });
+
+        // Highlight the element for a node on hover/focus, scroll to it when selected
+        const highlightFrom = (e: Event): void => {
+            const nodeItem: Element | null = (e.target as Element).closest('.wa11y-node');
+            const element: Element | null = nodeItem ? this.resolveNodeElement(nodeItem, widget) : null;
+            element ? this.showHighlight(element) : this.hideHighlight();
+        };
+        popup.addEventListener('mouseover', highlightFrom);
+        popup.addEventListener('focusin', highlightFrom);
+        popup.addEventListener('mouseleave', (): void => this.hideHighlight());
+        popup.addEventListener('click', (e: Event): void => {
+            const viewButton: HTMLElement | null = (e.target as Element).closest<HTMLElement>('[data-view]');
+            if (viewButton && viewButton !== popup) {
+                e.stopPropagation();
+                this.setGuidanceView(viewButton.dataset.view as GuidanceView);
+                return;
+            }
+            const nodeTarget: Element | null = (e.target as Element).closest('.wa11y-node__target');
+            const element: Element | null = nodeTarget ? this.resolveNodeElement(nodeTarget.parentElement!, widget) : null;
+            if (!element) return;
+            e.stopPropagation();
+            element.scrollIntoView({ block: 'center', behavior: 'smooth' });
+            this.showHighlight(element);
+        });
+
+        const uiContainer: Element = this.getWidgetUIContainer(widget)!;
+        const outsideClickHandler = (e: Event): void => {
+            const path: EventTarget[] = e.composedPath();
+            if (!path.includes(widget) && !path.includes(uiContainer)) close();
+        };
+        document.addEventListener('click', outsideClickHandler);
+        popup._outsideClickHandler = outsideClickHandler;
+        popup._open = (): void => {
+            closeOthers();
+            open();
+        };
+        popup._close = close;
+    }
+
+    /**
+     * Keep Tab/Shift+Tab focus cycling inside a dialog
+     */
+    private trapFocus(container: HTMLElement, e: KeyboardEvent): void {
+        const focusable: HTMLElement[] = Array.from(container.querySelectorAll<HTMLElement>(
+            'a[href], button:not([disabled]), select, textarea, summary, [tabindex]:not([tabindex="-1"])'
+        )).filter(el => !el.closest('[hidden]'));
+        if (!focusable.length) {
+            e.preventDefault();
+            return;
+        }
+
+        const first: HTMLElement = focusable[0];
+        const last: HTMLElement = focusable[focusable.length - 1];
+        const active: Element | null = (container.getRootNode() as Document | ShadowRoot).activeElement;
+        const outside: boolean = !focusable.includes(active as HTMLElement);
+
+        if (e.shiftKey && (active === first || outside)) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && (active === last || outside)) {
+            e.preventDefault();
+            first.focus();
+        }
+    }
+
+    /**
+     * Announce a message through the validator's live region
+     */
+    private announce(message: string): void {
+        if (!message || this.config.renderMode === 'none') return;
+        if (!this.liveRegion) {
+            this.liveRegion = document.createElement('div');
+            this.liveRegion.className = this.uiClasses.LIVE;
+            this.liveRegion.setAttribute('role', 'status');
+            this.liveRegion.setAttribute('aria-live', 'polite');
+            this.liveRegion.setAttribute('aria-atomic', 'true');
+        }
+        this.liveRegion.lang = this.config.locale!;
+        if (!this.liveRegion.isConnected) {
+            this.getUIRoot().appendChild(this.liveRegion);
+        }
+
+        // Clear first so repeated identical messages are still announced
+        this.liveRegion.textContent = '';
+        setTimeout(() => {
+            if (this.liveRegion) this.liveRegion.textContent = message;
+        }, 50);
+    }
+
+    /**
+     * Describe issues introduced in a widget since its previous report
+     */
+    private describeNewIssues(current: WidgetReport): string {
+        const added: number = current.diff?.added.length ?? 0;
+        if (!added) return '';
+        return this.t('announceNewIssues', { count: added, widget: this.getWidgetLabel(current) });
+    }
+
+    /**
+     * Get the validator's own UI elements (excluded from axe runs)
+     */
+    private getOwnUIElements(): Element[] {
+        const selector: string = [
+            this.uiClasses.BADGE,
+            this.uiClasses.POPUP,
+            this.uiClasses.PANEL,
+            this.uiClasses.HIGHLIGHT,
+            this.uiClasses.LIVE,
+            this.uiClasses.HOST,
+            this.uiClasses.TOGGLE,
+            this.uiClasses.MODAL
+        ].map(className => `.${className}`).join(', ');
+        return this.config.shadowDom ? querySelectorAllDeep(document, selector) : Array.from(document.querySelectorAll(selector));
+    }
+
+    /**
+     * Summary panel
+     */
+    private getWidgetLabel(report: WidgetReport): string {
+        return report.info.label;
+    }
+
+    private getHighestImpact(violations: Array<{ impact?: string }>): Impact | null {
+        return violations.reduce<Impact | null>((highest, v) => {
+            const rank: number = AccessibilityValidator.IMPACT_ORDER.indexOf(v.impact as Impact);
+            return rank > AccessibilityValidator.IMPACT_ORDER.indexOf(highest as Impact) ? v.impact as Impact : highest;
+        }, null);
+    }
+
+    private createPanel(): HTMLElement {
+        const panel: HTMLElement = document.createElement('aside');
+        panel.className = `${this.uiClasses.PANEL} ${this.uiClasses.PANEL}--${this.config.summaryPanelDock}`;
+        panel.setAttribute('aria-label', this.t('panelTitle'));
+        panel.lang = this.config.locale!;
+        const dockLabels: Record<PanelDock, keyof UIMessages> = { left: 'panelDockLeft', bottom: 'panelDockBottom', right: 'panelDockRight' };
+        panel.innerHTML = `
+            <div class="${this.uiClasses.PANEL}__hdr">
+                <h2 class="${this.uiClasses.PANEL}__ttl">${escapeHtml(this.t('panelTitle'))}</h2>
+                <div class="${this.uiClasses.PANEL}__dock" role="group" aria-label="${escapeHtml(this.t('panelDock'))}">
+                    ${(['left', 'bottom', 'right'] as PanelDock[]).map(dock =>
+                        `<button type="button" data-dock="${dock}" aria-pressed="${dock === this.config.summaryPanelDock}">${escapeHtml(this.t(dockLabels[dock]))}</button>`
+                    ).join('')}
+                </div>
+                <button type="button" class="${this.uiClasses.CLOSE}" aria-label="${escapeHtml(this.t('panelClose'))}">${this.createCloseIcon()}</button>
+            </div>
+            <div class="${this.uiClasses.PANEL}__filters">
+                <label>${escapeHtml(this.t('panelImpact'))} <select data-filter="impact"></select></label>
+                <label>${escapeHtml(this.t('panelRule'))} <select data-filter="rule"></select></label>
+            </div>
+            <p class="${this.uiClasses.PANEL}__totals"></p>
+            <div class="${this.uiClasses.PANEL}__trend" hidden></div>
+            <ul class="${this.uiClasses.PANEL}__list"></ul>
+        `;
+
+        panel.addEventListener('click', (e: Event): void => {
+            e.stopPropagation();
+            const target = (e.target as Element).closest<HTMLButtonElement>('button');
+            if (!target) return;
+
+            if (target.dataset.dock) {
+                this.dockPanel(target.dataset.dock as PanelDock);
+            } else if (target.classList.contains(this.uiClasses.CLOSE)) {
+                this.toggleSummaryPanel(false);
+            } else if (target.dataset.widgetIndex !== undefined) {
+                const report: WidgetReport | undefined = this.lastReport?.widgets[Number(target.dataset.widgetIndex)];
+                if (report) this.focusWidget(report.element);
+            }
+        });
+
+        panel.addEventListener('change', (e: Event): void => {
+            const select = e.target as HTMLSelectElement;
+            if (select.dataset.filter === 'impact' || select.dataset.filter === 'rule') {
+                this.panelFilters[select.dataset.filter] = select.value;
+                this.renderSummaryPanel();
+            }
+        });
+
+        return panel;
+    }
+
+    /**
+     * Switch every popup between the editor and developer views; later popups open in the same view
+     */
+    setGuidanceView(view: GuidanceView): void {
+        this.config.guidanceView = view;
+        // Popups live with their widget, which may be in a shadow root or frame
+        this.getAllWidgets().forEach(widget => {
+            const popup = this.getWidgetUIContainer(widget)?.querySelector<PopupElement>(`:scope > .${this.uiClasses.POPUP}`);
+            if (!popup) return;
+            popup.dataset.view = view;
+            popup.querySelectorAll<HTMLButtonElement>('button[data-view]').forEach(btn => {
+                btn.setAttribute('aria-pressed', String(btn.dataset.view === view));
+            });
+        });
+    }
+
+    private dockPanel(dock: PanelDock): void {
+        if (!this.panel) return;
+        this.config.summaryPanelDock = dock;
+        this.panel.className = `${this.uiClasses.PANEL} ${this.uiClasses.PANEL}--${dock}`;
+        this.panel.querySelectorAll<HTMLButtonElement>('[data-dock]').forEach(btn => {
+            btn.setAttribute('aria-pressed', String(btn.dataset.dock === dock));
+        });
+    }
+
+    private renderSummaryPanel(): void {
+        if (!this.config.enableSummaryPanel || this.config.renderMode === 'none') return;
+
+        if (!this.panel) {
+            this.panel = this.createPanel();
+            this.getUIRoot().appendChild(this.panel);
+        }
+
+        const widgets: WidgetReport[] = this.lastReport?.widgets ?? [];
+        const rules: string[] = Array.from(new Set(
+            widgets.reduce<string[]>((ids, w) => ids.concat(w.violations.map(v => v.id)), [])
+        )).sort();
+        const { impact, rule } = this.panelFilters;
+
+        // Options are only replaced when they change, so a focused or open select isn't reset by each run
+        const setOptions = (filter: string, values: string[], selected: string, allLabel: string, label: (value: string) => string = value => value): void => {
+            const select: HTMLSelectElement = this.panel!.querySelector<HTMLSelectElement>(`[data-filter="${filter}"]`)!;
+            const html: string = [`<option value="">${escapeHtml(allLabel)}</option>`, ...values.map(value =>
+                `<option value="${escapeHtml(value)}">${escapeHtml(label(value))}</option>`
+            )].join('');
+            if (select.dataset.options !== html) {
+                select.innerHTML = html;
+                select.dataset.options = html;
+            }
+            select.value = selected;
+        };
+        setOptions('impact', [...AccessibilityValidator.IMPACT_ORDER].reverse(), impact, this.t('panelAllImpacts'), value => this.formatImpact(value));
+        setOptions('rule', rules, rule, this.t('panelAllRules'));
+
+        const entries: string[] = widgets.map((report, index) => {
+            const violations: AxeViolation[] = report.violations.filter(v =>
+                (!impact || v.impact === impact) && (!rule || v.id === rule)
+            );
+            if ((impact || rule) && !violations.length) return '';
+
+            const highest: Impact | null = this.getHighestImpact(violations);
+            return `<li>
+                <button type="button" class="${this.uiClasses.PANEL}__item" data-widget-index="${index}">
+                    <span class="${this.uiClasses.PANEL}__name">${escapeHtml(this.getWidgetLabel(report))}</span>
+                    <span class="${this.uiClasses.PANEL}__count">${escapeHtml(violations.length ? this.t('panelIssues', { count: violations.length }) : this.t('panelNoIssues'))}</span>
+                    ${highest ? `<span class="${this.uiClasses.PANEL}__impact ${this.uiClasses.PANEL}__impact--${highest}">${escapeHtml(this.formatImpact(highest))}</span>` : ''}
+                </button>
+            </li>`;
+        });
+
+        const totals = this.lastReport?.totals;
+        const gate = this.lastReport?.gate;
+        this.panel.querySelector(`.${this.uiClasses.PANEL}__totals`)!.textContent = totals && gate
+            ? this.t('panelTotals', { count: totals.violations, widgetsWithIssues: totals.widgetsWithIssues, widgets: totals.widgets }) +
+              (totals.pageIssues ? this.t('panelOutsideWidgets', { count: totals.pageIssues }) : '') +
+              (gate.fail ? this.t('panelBlocking', { count: gate.fail }) : gate.warn ? this.t('panelToReview', { count: gate.warn }) : '')
+            : '';
+        this.panel.querySelector(`.${this.uiClasses.PANEL}__list`)!.innerHTML =
+            entries.join('') || `<li class="wa11y-empty">${escapeHtml(this.t('panelNoMatches'))}</li>`;
+        this.renderTrend();
+    }
+
+    /**
+     * Trend of the page's recorded runs: a line of issue counts, and the change since the first run
+     */
+    private renderTrend(): void {
+        const container: HTMLElement = this.panel!.querySelector<HTMLElement>(`.${this.uiClasses.PANEL}__trend`)!;
+        container.hidden = this.history.length < 2;
+        if (container.hidden) {
+            container.innerHTML = '';
+            return;
+        }
+
+        const trend: HistoryTrend = summarizeTrend(this.getPageKey(), this.history);
+        const recent: HistoryEntry[] = this.history.slice(-AccessibilityValidator.TREND_POINTS);
+        const max: number = Math.max(1, ...recent.map(entry => entry.issues));
+        const points: string = recent
+            .map((entry, index) => `${(index / (recent.length - 1)) * 100},${(1 - entry.issues / max) * 18 + 2}`)
+            .join(' ');
+        let date: string;
+        try {
+            date = new Date(trend.first!.recordedAt).toLocaleDateString(this.config.locale);
+        } catch {
+            // Locale tag Intl doesn't accept
+            date = new Date(trend.first!.recordedAt).toLocaleDateString();
+        }
+
+        container.className = `${this.uiClasses.PANEL}__trend` +
+            (trend.change < 0 ? ` ${this.uiClasses.PANEL}__trend--better` : trend.change > 0 ? ` ${this.uiClasses.PANEL}__trend--worse` : '');
+        container.innerHTML = `
+            <h3 class="${this.uiClasses.PANEL}__trend-ttl">${escapeHtml(this.t('panelHistory'))}</h3>
+            <svg viewBox="0 0 100 22" preserveAspectRatio="none" aria-hidden="true">
+                <polyline points="${points}" fill="none" stroke="currentColor" stroke-width="1.5" vector-effect="non-scaling-stroke"/>
+            </svg>
+            <p>${escapeHtml(this.t('panelHistoryChange', { first: trend.first!.issues, count: trend.latest!.issues, date }) +
+                this.t('panelHistoryRuns', { count: trend.runs }))}</p>
+            <p>${escapeHtml(this.t('panelHistoryDetail', { fixed: trend.fixed.length, introduced: trend.introduced.length }))}</p>
+        `;
+    }
+
+    /**
+     * Scroll to a widget and open its popup (which moves focus into it)
+     */
+    private focusWidget(widget: Element): void {
+        widget.scrollIntoView({ block: 'center', behavior: 'smooth' });
+
+        const popup = this.getWidgetUIContainer(widget)?.querySelector<PopupElement>(`:scope > .${this.uiClasses.POPUP}`);
+        popup?._open?.();
+    }
+
+    /**
+     * Rendering roots: the document (inline mode) or a shadow root overlay (shadow mode)
+     */
+    private getUIRoot(): HTMLElement | ShadowRoot {
+        return this.config.renderMode === 'shadow' ? this.ensureShadowRoot() : document.body;
+    }
+
+    private ensureShadowRoot(): ShadowRoot {
+        if (this.shadowHost?.shadowRoot) return this.shadowHost.shadowRoot;
+
+        this.shadowHost = document.createElement('div');
+        this.shadowHost.className = this.uiClasses.HOST;
+        const root: ShadowRoot = this.shadowHost.attachShadow({ mode: 'open' });
+
+        const style: HTMLStyleElement = document.createElement('style');
+        style.textContent = this.buildHostCSS() + this.buildCSS() + (this.config.customCSS || '');
+        root.appendChild(style);
+
+        // Outside <body> so site layout and the MutationObserver never see it
+        document.documentElement.appendChild(this.shadowHost);
+
+        window.addEventListener('resize', this.repositionHandler);
+        document.addEventListener('scroll', this.repositionHandler, true);
+        if (typeof ResizeObserver !== 'undefined') {
+            this.resizeObserver = new ResizeObserver(this.repositionHandler);
+        }
+
+        return root;
+    }
+
+    /**
+     * Get the element a widget's badge and popup are appended to
+     */
+    private getWidgetUIContainer(widget: Element, create: boolean = false): Element | null {
+        if (this.config.renderMode !== 'shadow') return widget;
+
+        let overlay: HTMLElement | undefined = this.overlays.get(widget);
+        if (!overlay && create) {
+            overlay = document.createElement('div');
+            overlay.className = this.uiClasses.OVERLAY;
+            this.ensureShadowRoot().appendChild(overlay);
+            this.overlays.set(widget, overlay);
+            this.resizeObserver?.observe(widget);
+            this.positionOverlay(widget, overlay);
+        }
+        return overlay ?? null;
+    }
+
+    private positionOverlay(widget: Element, overlay: HTMLElement): void {
+        const rect: DOMRect = widget.getBoundingClientRect();
+        Object.assign(overlay.style, {
+            top: `${rect.top + window.scrollY}px`,
+            left: `${rect.left + window.scrollX}px`,
+            width: `${rect.width}px`,
+            height: `${rect.height}px`
+        });
+    }
+
+    private scheduleReposition(): void {
+        if (this.repositionFrame !== undefined) return;
+        this.repositionFrame = requestAnimationFrame(() => {
+            this.repositionFrame = undefined;
+            this.overlays.forEach((overlay, widget) => {
+                if (widget.isConnected) {
+                    this.positionOverlay(widget, overlay);
+                } else {
+                    this.clearWidgetUI(widget);
+                }
+            });
+        });
+    }
+
+    /**
+     * Remove page-level UI (panel, highlight, live region and shadow host)
+     */
+    private teardownUI(): void {
+        this.panel?.remove();
+        this.panel = null;
+        this.highlight?.remove();
+        this.highlight = null;
+        this.liveRegion?.remove();
+        this.liveRegion = null;
+        this.toggleButton?.remove();
+        this.toggleButton = null;
+        this.closePublishDialog?.(null);
+
+        window.removeEventListener('resize', this.repositionHandler);
+        document.removeEventListener('scroll', this.repositionHandler, true);
+        if (this.repositionFrame !== undefined) {
+            cancelAnimationFrame(this.repositionFrame);
+            this.repositionFrame = undefined;
+        }
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = null;
+        this.shadowHost?.remove();
+        this.shadowHost = null;
+    }
+
+    /**
+     * UI management
+     */
+    private clearWidgetUI(widget: Element): void {
+        widget.classList.remove(this.uiClasses.OUTLINE, ...AccessibilityValidator.GATE_STATUSES.map(status => `${this.uiClasses.OUTLINE}--${status}`));
+
+        const container: Element | null = this.getWidgetUIContainer(widget);
+        if (container) {
+            container.querySelectorAll<PopupElement>(`:scope > .${this.uiClasses.POPUP}`).forEach(popup => {
+                if (popup._outsideClickHandler) {
+                    document.removeEventListener('click', popup._outsideClickHandler);
+                }
+            });
+            container.querySelectorAll<HTMLElement>(`:scope > .${this.uiClasses.BADGE}, :scope > .${this.uiClasses.POPUP}`).forEach(n => n.remove());
+        }
+        if (container && container !== widget) {
+            container.remove();
+            this.overlays.delete(widget);
+            this.resizeObserver?.unobserve(widget);
+        }
+
+        this.setWidgetState(widget, { hasUI: false, lastViolationCount: 0, newIssueCount: 0, gateStatus: null, violations: [] });
+    }
+
+    private renderWidgetUI(widget: Element, violations: AxeViolation[], newNodes: Set<AxeNode> = new Set(), gateStatus: GateStatus = 'pass'): void {
+        const currentState: WidgetState = this.getWidgetState(widget);
+        const violationCount: number = violations.length;
+
+        if (this.config.renderMode === 'none') {
+            this.setWidgetState(widget, { lastViolationCount: violationCount, newIssueCount: newNodes.size, gateStatus, violations });
+            return;
+        }
+        
+        // Keep the existing badge and popup (and any open popup) when results haven't changed
+        if (currentState.hasUI === (violationCount > 0) &&
+            currentState.newIssueCount === newNodes.size &&
+            (!violationCount || currentState.gateStatus === gateStatus) &&
+            this.getViolationSignature(currentState.violations) === this.getViolationSignature(violations)) {
+            this.setWidgetState(widget, { violations });
+            return;
+        }
+        
+        if (!violationCount) {
+            this.clearWidgetUI(widget);
+            return;
+        }
+        
+        this.clearWidgetUI(widget);
+        if (this.config.renderMode === 'inline') {
+            this.injectShadowCSS(widget);
+        }
+        const container: Element = this.getWidgetUIContainer(widget, true)!;
+        container.classList.add(this.uiClasses.OUTLINE, `${this.uiClasses.OUTLINE}--${gateStatus}`);
+
+        const btn: HTMLButtonElement = this.createBadge(violationCount, newNodes.size, gateStatus);
+        const popup: PopupElement = this.createPopup(violations, newNodes);
+        btn.setAttribute('aria-controls', popup.id);
+        
+        container.appendChild(btn);
+        container.appendChild(popup);
+        
+        this.setupUIInteractions(btn, popup, widget);
+        this.setWidgetState(widget, { hasUI: true, lastViolationCount: violationCount, newIssueCount: newNodes.size, gateStatus, violations });
+    }
+
+    private getViolationSignature(violations: AxeViolation[]): string {
+        return violations
+            .map(v => v.nodes.map(node => `${issueKey(v.id, node)}@${formatTarget(node.target)}`).join(','))
+            .join('|');
+    }
+
+    /**
+     * CSS injection
+     */
+    private injectCSS(): void {
+        if (this.config.renderMode === 'none') return;
+        if (this.config.renderMode === 'shadow') {
+            this.ensureShadowRoot();
+            return;
+        }
+        if (document.getElementById('wa11y-style')) return;
+
+        const s: HTMLStyleElement = document.createElement('style');
+        s.id = 'wa11y-style';
+        s.textContent = this.buildCSS() + (this.config.customCSS || '');
+        document.head.appendChild(s);
+    }
+
+    /**
+     * Inline UI of a widget in a shadow root needs the styles inside that root
+     */
+    private injectShadowCSS(widget: Element): void {
+        const root: Node = widget.getRootNode();
+        if (root.nodeType !== Node.DOCUMENT_FRAGMENT_NODE || this.shadowStyles.has(root as ShadowRoot)) return;
+
+        const style: HTMLStyleElement = document.createElement('style');
+        style.textContent = this.buildCSS() + (this.config.customCSS || '');
+        root.appendChild(style);
+        this.shadowStyles.set(root as ShadowRoot, style);
+    }
+
+    /**
+     * Rules for the validator's own shadow host and its overlays. Never injected into the
+     * site's shadow roots, where `:host` would restyle the site's component.
+     */
+    private buildHostCSS(): string {
+        return `
+        :host{all:initial;position:absolute;top:0;left:0;width:0;height:0;z-index:99990}
+        .${this.uiClasses.OVERLAY}{position:absolute;box-sizing:border-box;pointer-events:none}
+        .${this.uiClasses.OVERLAY}.${this.uiClasses.OUTLINE}{position:absolute}
+        .${this.uiClasses.OVERLAY} > *{pointer-events:auto}
+        `;
+    }
+
+    private buildCSS(): string {
+        return `
+        .${this.uiClasses.OUTLINE}{outline:2px solid #e33;outline-offset:2px;position:relative}
+        .${this.uiClasses.OUTLINE}--warn{outline-color:#f0b429}
+        .${this.uiClasses.OUTLINE}--pass{outline:1px dashed #888}
+        .${this.uiClasses.BADGE}{position:absolute;top:6px;right:6px;z-index:99998;display:inline-flex;align-items:center;gap:6px;background:#111;color:#fff;border:1px solid #333;border-radius:999px;font:12px/1 system-ui,-apple-system,Segoe UI,Roboto,Arial;padding:4px 8px;cursor:pointer;box-shadow:0 2px 8px rgba(0,0,0,.2)}
+        .${this.uiClasses.BADGE}__icon{width:14px;height:14px;display:inline-block}
+        .${this.uiClasses.BADGE}__icon svg{width:14px;height:14px;display:block}
+        .${this.uiClasses.BADGE}--fail{background:#b00020;border-color:#ff8a8a}
+        .${this.uiClasses.BADGE}--warn{background:#7a4f00;border-color:#f0b429}
+        .${this.uiClasses.BADGE}__new{background:#f0b429;color:#111;border-radius:999px;padding:2px 6px;font-weight:600}
+        .wa11y-new{display:inline-block;background:#f0b429;color:#111;border-radius:3px;padding:1px 4px;font:600 10px/1.2 system-ui;text-transform:uppercase}
+        .wa11y-item--new{border-left:3px solid #f0b429;padding-left:6px}
+        .${this.uiClasses.POPUP}{position:absolute;top:36px;right:6px;z-index:99999;width:320px;max-width:calc(100vw - 32px);background:#1a1a1a;color:#fff;border:1px solid #333;padding:10px;box-shadow:0 10px 24px rgba(0,0,0,.35)}
+        .${this.uiClasses.POPUP}[hidden]{display:none}
+        .${this.uiClasses.POPUP}:focus{outline:2px solid #9ee6a7;outline-offset:-2px}
+        .wa11y-item:focus{outline:2px solid #9ee6a7;outline-offset:2px}
+        .${this.uiClasses.TOGGLE}{position:fixed;left:16px;bottom:16px;z-index:99997;display:inline-flex;align-items:center;gap:6px;background:#111;color:#fff;border:1px solid #333;border-radius:999px;font:12px/1 system-ui,-apple-system,Segoe UI,Roboto,Arial;padding:6px 10px;cursor:pointer;opacity:.6}
+        .${this.uiClasses.TOGGLE}[aria-pressed="true"]{opacity:1;border-color:#9ee6a7}
+        .${this.uiClasses.TOGGLE} svg{width:14px;height:14px;display:block}
+        .${this.uiClasses.TOGGLE}:focus-visible{outline:2px solid #9ee6a7;outline-offset:2px}
+        .${this.uiClasses.MODAL}{position:fixed;inset:0;z-index:100000;display:flex;align-items:center;justify-content:center;background:rgba(0,0,0,.55);font:13px/1.4 system-ui,-apple-system,Segoe UI,Roboto,Arial}
+        .${this.uiClasses.MODAL}__dialog{width:520px;max-width:calc(100vw - 32px);max-height:calc(100vh - 64px);overflow:auto;background:#1a1a1a;color:#fff;border:1px solid #ff8a8a;padding:16px;box-shadow:0 10px 24px rgba(0,0,0,.35)}
+        .${this.uiClasses.MODAL}__dialog:focus{outline:2px solid #9ee6a7;outline-offset:-2px}
+        .${this.uiClasses.MODAL}__title{margin:0 0 8px;font:600 16px/1.3 system-ui;color:#ff8a8a}
+        .${this.uiClasses.MODAL}__list{margin:0 0 12px;padding-left:18px;max-height:40vh;overflow:auto}
+        .${this.uiClasses.MODAL}__label{display:block;margin-bottom:4px;font-weight:600}
+        .${this.uiClasses.MODAL}__reason{box-sizing:border-box;width:100%;margin-bottom:12px;background:#111;color:#fff;border:1px solid #555;padding:6px;font:inherit}
+        .${this.uiClasses.MODAL}__actions{display:flex;justify-content:flex-end;gap:8px}
+        .${this.uiClasses.MODAL}__actions button{background:#333;color:#fff;border:1px solid #555;padding:6px 10px;cursor:pointer;font:inherit}
+        .${this.uiClasses.MODAL}__actions button[disabled]{opacity:.5;cursor:not-allowed}
+        .${this.uiClasses.MODAL} :focus-visible{outline:2px solid #9ee6a7;outline-offset:2px}
+        .${this.uiClasses.LIVE}{position:absolute;width:1px;height:1px;margin:-1px;padding:0;overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;border:0}
+        .${this.uiClasses.POPUP} *{margin-top:0}
+        .${this.uiClasses.POPUP}__hdr{display:flex;align-items:center;justify-content:space-between;gap:8px;margin-bottom:6px}
+        .${this.uiClasses.POPUP}__ttl{margin:0;font:600 12px/1.3 system-ui;color:#9ee6a7}
+        .${this.uiClasses.CLOSE}{min-height:0;background:none;border:none;color:#fff;cursor:pointer;padding:0;width:16px;height:16px;display:flex;align-items:center;justify-content:center}
+        .${this.uiClasses.CLOSE} svg{width:12px;height:12px;stroke:currentColor}
+        .${this.uiClasses.PANEL}{position:fixed;z-index:99997;display:flex;flex-direction:column;gap:8px;background:#1a1a1a;color:#fff;border:1px solid #333;padding:10px;box-shadow:0 10px 24px rgba(0,0,0,.35);font:12px/1.35 system-ui,-apple-system,Segoe UI,Roboto,Arial}
+        .${this.uiClasses.PANEL}--right{top:16px;right:16px;bottom:16px;width:300px}
+        .${this.uiClasses.PANEL}--left{top:16px;left:16px;bottom:16px;width:300px}
+        .${this.uiClasses.PANEL}--bottom{left:16px;right:16px;bottom:16px;max-height:40vh}
+        .${this.uiClasses.PANEL}[hidden]{display:none}
+        .${this.uiClasses.PANEL} *{margin-top:0}
+        .${this.uiClasses.PANEL} button,.${this.uiClasses.PANEL} select{font:inherit;color:inherit;background:#222;border:1px solid #444;border-radius:4px;padding:2px 6px;cursor:pointer}
+        .${this.uiClasses.PANEL}__hdr{display:flex;align-items:center;gap:8px}
+        .${this.uiClasses.PANEL}__ttl{margin:0 auto 0 0;font:600 12px/1.3 system-ui;color:#9ee6a7}
+        .${this.uiClasses.PANEL}__dock{display:flex;gap:2px}
+        .${this.uiClasses.PANEL}__dock [aria-pressed="true"]{border-color:#9ee6a7}
+        .${this.uiClasses.PANEL}__filters{display:flex;gap:8px;flex-wrap:wrap}
+        .${this.uiClasses.PANEL}__totals{margin:0;color:#cfcfcf}
+        .${this.uiClasses.PANEL}__trend{color:#cfcfcf}
+        .${this.uiClasses.PANEL}__trend[hidden]{display:none}
+        .${this.uiClasses.PANEL}__trend p{margin:0}
+        .${this.uiClasses.PANEL}__trend svg{display:block;width:100%;height:22px;color:#888}
+        .${this.uiClasses.PANEL}__trend--better svg{color:#9ee6a7}
+        .${this.uiClasses.PANEL}__trend--worse svg{color:#ff8a80}
+        .${this.uiClasses.PANEL}__trend-ttl{margin:0;font:600 11px/1.3 system-ui;color:#ddd}
+        .${this.uiClasses.PANEL}__list{margin:0;padding:0;list-style:none;overflow:auto;flex:1}
+        .${this.uiClasses.PANEL}__list li+li{margin-top:4px}
+        .${this.uiClasses.PANEL} .${this.uiClasses.PANEL}__item{display:flex;width:100%;align-items:center;gap:6px;text-align:left;padding:6px}
+        .${this.uiClasses.PANEL}__name{flex:1;overflow:hidden;text-overflow:ellipsis;white-space:nowrap}
+        .${this.uiClasses.PANEL}__impact{font-weight:600;text-transform:uppercase;font-size:10px}
+        .${this.uiClasses.PANEL}__impact--critical,.${this.uiClasses.PANEL}__impact--serious{color:#ff8a80}
+        .${this.uiClasses.PANEL}__impact--moderate{color:#f0b429}
+        .${this.uiClasses.POPUP}__view{display:flex;gap:2px;margin-left:auto}
+        .${this.uiClasses.POPUP}__view button{min-height:0;background:none;border:1px solid #555;border-radius:4px;color:#ddd;cursor:pointer;font:11px/1 system-ui;padding:3px 6px}
+        .${this.uiClasses.POPUP}__view [aria-pressed="true"]{border-color:#f0b429;color:#f0b429}
+        .${this.uiClasses.POPUP}[data-view="editor"] .wa11y-dev,.${this.uiClasses.POPUP}[data-view="developer"] .wa11y-guidance{display:none}
+        .${this.uiClasses.EXPORT}{min-height:0;background:none;border:1px solid #555;border-radius:4px;color:#ddd;cursor:pointer;font:11px/1 system-ui;padding:3px 6px}
+        .wa11y-list{margin:0;padding:0;list-style:none;max-height:320px;overflow:auto}
+        .wa11y-item{padding:0}
+        .wa11y-item+.wa11y-item{margin-top:10px}
+        .wa11y-rule{font:600 11px/1.2 system-ui;color:#ddd;margin-bottom:2px}
+        .wa11y-msg{font:12px/1.35 system-ui;color:#cfcfcf}
+        .wa11y-guidance{margin-top:4px;font:12px/1.4 system-ui;color:#eee}
+        .wa11y-guidance p{margin:0}
+        .wa11y-guidance__steps{margin-top:4px;font-weight:600;color:#ddd}
+        .wa11y-guidance ol{margin:2px 0 0;padding-left:18px}
+        .wa11y-link{display:inline-block;margin-top:2px;font:11px/1.3 system-ui;color:#8ab4ff}
+        .wa11y-nodes{margin:6px 0 0;padding:0;list-style:none}
+        .wa11y-node{padding:6px;border-left:2px solid #444;margin-top:6px}
+        .wa11y-node:hover,.wa11y-node:focus-within{border-left-color:#f0b429;background:#222}
+        .wa11y-node__target{display:block;max-width:100%;min-height:0;background:none;border:none;padding:0;color:#f0b429;cursor:pointer;font:11px/1.3 ui-monospace,Consolas,monospace;text-align:left;overflow-wrap:anywhere}
+        .wa11y-snippet{margin:4px 0;padding:4px;background:#111;color:#ddd;font:11px/1.3 ui-monospace,Consolas,monospace;white-space:pre-wrap;overflow-wrap:anywhere;max-height:80px;overflow:auto}
+        .wa11y-summary{font:11px/1.35 system-ui;color:#cfcfcf;white-space:pre-line}
+        .wa11y-checks{margin-top:4px;font:11px/1.35 system-ui;color:#cfcfcf}
+        .wa11y-checks summary{cursor:pointer;color:#ddd}
+        .wa11y-checks__group{margin-top:4px;color:#ddd}
+        .wa11y-checks__list{margin:2px 0 0;padding-left:16px}
+        .wa11y-checks__id{color:#999}
+        .${this.uiClasses.HIGHLIGHT}{position:absolute;z-index:99996;pointer-events:none;outline:3px solid #f0b429;outline-offset:2px;background:rgba(240,180,41,.15)}
+        .${this.uiClasses.HIGHLIGHT}[hidden]{display:none}
+        `;
+    }
+
+    /**
+     * Event handling setup
+     */
+    private setupEventListeners(): void {
+        // Listen for custom recheck events
+        window.addEventListener('wa11y:recheck', this.recheckEventHandler);
+        
+        // Listen for CMS events
+        this.bindCmsEvents();
+
+        // Runtime on/off shortcut
+        document.addEventListener('keydown', this.shortcutHandler);
+
+        // Publish guard; capturing on window runs before the CMS's own click handlers
+        window.addEventListener('click', this.publishClickHandler, true);
+
+        // Cleanup on page unload
+        window.addEventListener('beforeunload', this.unloadHandler);
+    }
+
+    /**
+     * Toggle the overlay when the configured shortcut (e.g. 'Alt+Shift+A') is pressed
+     */
+    private handleShortcut(e: KeyboardEvent): void {
+        const shortcut = this.config.toggleShortcut;
+        if (!shortcut) return;
+
+        const parts: string[] = shortcut.toLowerCase().split('+').map(part => part.trim());
+        const key: string = parts[parts.length - 1];
+        const matches: boolean =
+            e.altKey === parts.includes('alt') &&
+            e.shiftKey === parts.includes('shift') &&
+            e.ctrlKey === parts.includes('ctrl') &&
+            e.metaKey === parts.includes('meta') &&
+            (e.key.toLowerCase() === key || e.code.toLowerCase() === `key${key}`);
+
+        if (matches) {
+            e.preventDefault();
+            this.enabled ? this.disable() : this.enable();
+        }
+    }
+
+    /**
+     * Publish guard: hold clicks on publish controls until a fresh audit passes
+     */
+    private getPublishGuardOptions(): Required<PublishGuardOptions> | null {
+        const guard = this.config.publishGuard;
+        if (!guard) return null;
+        return {
+            selector: this.cmsAdapter.getPublishSelector?.() ?? '',
+            blockOn: 'fail',
+            allowAcknowledge: true,
+            ...(guard === true ? {} : guard)
+        };
+    }
+
+    private handlePublishClick(e: MouseEvent): void {
+        const guard = this.getPublishGuardOptions();
+        if (!guard?.selector || this.publishBypass || !(e.target instanceof Element)) return;
+
+        let trigger: HTMLElement | null;
+        try {
+            trigger = e.target.closest<HTMLElement>(guard.selector);
+        } catch {
+            return;
+        }
+        if (!trigger) return;
+
+        e.preventDefault();
+        e.stopImmediatePropagation();
+        if (this.publishPending) return;
+
+        this.publishPending = true;
+        this.guardPublish()
+            .then((decision: PublishDecision): void => {
+                if (!decision.proceed || !trigger!.isConnected) return;
+                // Replay the click for the CMS, past this guard
+                this.publishBypass = true;
+                try {
+                    trigger!.click();
+                } finally {
+                    this.publishBypass = false;
+                }
+            })
+            .catch((err: unknown): void => {
+                // The click stays cancelled, so the page is held back
+                if (this.config.enableDebugLogging) {
+                    console.warn('[AccessibilityValidator] Publish guard failed', err);
+                }
+            })
+            .finally(() => {
+                this.publishPending = false;
+            });
+    }
+
+    private getBlockingWidgets(report: ValidationReport): WidgetReport[] {
+        const blockOn = this.getPublishGuardOptions()?.blockOn ?? 'fail';
+        return report.widgets.filter(widget =>
+            widget.gate.status === 'fail' || (blockOn === 'warn' && widget.gate.status === 'warn')
+        );
+    }
+
+    /**
+     * Dialog listing blocking issues; resolves with the acknowledgment reason, or null if
+     * the editor cancels or goes back to fix the issues
+     */
+    private showPublishDialog(blocking: WidgetReport[], allowAcknowledge: boolean): Promise<string | null> {
+        this.closePublishDialog?.(null);
+
+        const id: string = `wa11y-publish-${++AccessibilityValidator.popupCounter}`;
+        const issueCount: number = blocking.reduce((sum, widget) => sum + widget.nodes.length, 0);
+        // No blocking widgets: the audit itself failed
+        const failed: boolean = !blocking.length;
+        const dialog: HTMLElement = document.createElement('div');
+        dialog.className = this.uiClasses.MODAL;
+        dialog.setAttribute('role', 'alertdialog');
+        dialog.setAttribute('aria-modal', 'true');
+        dialog.setAttribute('aria-labelledby', `${id}-title`);
+        dialog.setAttribute('aria-describedby', `${id}-desc`);
+        dialog.lang = this.config.locale!;
+        const description: string = failed
+            ? this.t(allowAcknowledge ? 'publishFailedAcknowledge' : 'publishFailed')
+            : this.t(allowAcknowledge ? 'publishDescriptionAcknowledge' : 'publishDescription', {
+                count: issueCount,
+                issues: this.t('publishIssues', { count: issueCount }),
+                widgets: this.t('publishWidgets', { count: blocking.length })
+            });
+        dialog.innerHTML = `
+            <div class="${this.uiClasses.MODAL}__dialog" tabindex="-1">
+                <h2 class="${this.uiClasses.MODAL}__title" id="${id}-title">${escapeHtml(this.t(failed ? 'publishFailedTitle' : 'publishTitle'))}</h2>
+                <p id="${id}-desc">${escapeHtml(description)}</p>
+                ${failed ? '' : `<ul class="${this.uiClasses.MODAL}__list">
+                    ${blocking.map(widget => `<li>
+                        <strong>${escapeHtml(this.getWidgetLabel(widget))}</strong>
+                        <ul>${widget.violations.map(v => `<li>[${escapeHtml(v.id)}] ${escapeHtml(this.formatImpact(v.impact))} ${escapeHtml(v.help)} (${v.nodes.length})</li>`).join('')}</ul>
+                    </li>`).join('')}
+                </ul>`}
+                ${allowAcknowledge ? `
+                <label class="${this.uiClasses.MODAL}__label" for="${id}-reason">${escapeHtml(this.t('publishReason'))}</label>
+                <textarea class="${this.uiClasses.MODAL}__reason" id="${id}-reason" rows="3"></textarea>` : ''}
+                <div class="${this.uiClasses.MODAL}__actions">
+                    ${failed ? '' : `<button type="button" data-action="review">${escapeHtml(this.t('publishReview'))}</button>`}
+                    <button type="button" data-action="cancel">${escapeHtml(this.t('publishCancel'))}</button>
+                    ${allowAcknowledge ? `<button type="button" data-action="acknowledge" disabled>${escapeHtml(this.t('publishAnyway'))}</button>` : ''}
+                </div>
+            </div>
+        `;
+
+        const previousFocus: Element | null = document.activeElement;
+        const panel: HTMLElement = dialog.querySelector<HTMLElement>(`.${this.uiClasses.MODAL}__dialog`)!;
+        const reason: HTMLTextAreaElement | null = dialog.querySelector('textarea');
+        const acknowledge: HTMLButtonElement | null = dialog.querySelector('[data-action="acknowledge"]');
+
+        return new Promise<string | null>(resolve => {
+            const close = (result: string | null): void => {
+                this.closePublishDialog = null;
+                dialog.remove();
+                if (previousFocus instanceof HTMLElement) previousFocus.focus();
+                resolve(result);
+            };
+            this.closePublishDialog = close;
+
+            reason?.addEventListener('input', (): void => {
+                acknowledge!.disabled = !reason.value.trim();
+            });
+            dialog.addEventListener('click', (e: Event): void => {
+                e.stopPropagation();
+                const action: string | null = (e.target as Element).closest('[data-action]')?.getAttribute('data-action') ?? null;
+                if (action === 'acknowledge' && reason?.value.trim()) {
+                    close(reason.value.trim());
+                } else if (action === 'cancel') {
+                    close(null);
+                } else if (action === 'review') {
+                    close(null);
+                    this.focusWidget(blocking[0].element);
+                }
+            });
+            dialog.addEventListener('keydown', (e: KeyboardEvent): void => {
+                if (e.key === 'Escape') {
+                    e.preventDefault();
+                    close(null);
+                } else if (e.key === 'Tab') {
+                    this.trapFocus(panel, e);
+                }
+            });
+
+            this.getUIRoot().appendChild(dialog);
+            (reason ?? panel).focus();
+        });
+    }
+
+    /**
+     * Floating on/off toggle button
      */
-    private containsWidget(element: Element): boolean {
-        return this.config.widgetSelectors.some(selector => element.querySelector(selector) !== null);
+    private renderToggleButton(): void {
+        if (!this.config.showToggleButton || this.config.renderMode === 'none') {
+            this.toggleButton?.remove();
+            this.toggleButton = null;
+            return;
+        }
+
+        if (!this.toggleButton) {
+            this.toggleButton = document.createElement('button');
+            this.toggleButton.type = 'button';
+            this.toggleButton.lang = this.config.locale!;
+            this.toggleButton.innerHTML = `<span aria-hidden="true">${this.createIcon()}</span> ${escapeHtml(this.t('toggleLabel'))}`;
+            if (this.config.toggleShortcut) {
+                this.toggleButton.title = this.t('toggleTitle', { shortcut: this.config.toggleShortcut });
+            }
+            this.toggleButton.addEventListener('click', (e: Event): void => {
+                e.stopPropagation();
+                this.enabled ? this.disable() : this.enable();
+            });
+        }
+        this.toggleButton.className = this.uiClasses.TOGGLE;
+        if (!this.toggleButton.isConnected) {
+            this.getUIRoot().appendChild(this.toggleButton);
+        }
+        this.toggleButton.setAttribute('aria-pressed', String(this.enabled));
     }
 
     /**
-     * Check if element is inside any widget
+     * Listen for CMS events (`cmsEvents` if configured, otherwise the adapter's events)
      */
-    private isInsideWidget(element: Element): boolean {
-        return this.config.widgetSelectors.some(selector => element.closest(selector) !== null);
+    private bindCmsEvents(): void {
+        this.unbindCmsEvents();
+        this.cmsEventNames = this.config.cmsEvents || this.cmsAdapter.events;
+        this.cmsEventNames.forEach((eventName: string): void => {
+            document.addEventListener(eventName, this.cmsEventHandler);
+        });
+    }
+
+    private unbindCmsEvents(): void {
+        this.cmsEventNames.forEach((eventName: string): void => {
+            document.removeEventListener(eventName, this.cmsEventHandler);
+        });
+        this.cmsEventNames = [];
     }
 
     /**
-     * Get all widgets in document
+     * Mark the widget a CMS event originated from as dirty (or every widget when
+     * the event isn't tied to one) and schedule a recheck
      */
-    private getAllWidgets(): NodeListOf<Element> {
-        return document.querySelectorAll(this.getCombinedSelector());
+    private handleCmsEvent(event: Event): void {
+        const target = event.target as Node | null;
+        let widgets: Element[] = this.cmsAdapter.getEventWidgets(event);
+        if (!widgets.length && target && target !== document) {
+            widgets = this.getWidgetsForNode(target);
+        }
+        this.markDirty(widgets.length ? widgets : Array.from(this.getAllWidgets()));
+        this.debounceRecheck(500);
     }
 
     /**
-     * Check if element is our UI component
+     * Mutation observer setup
      */
-    private isOurUIElement(element: Element | null): boolean {
-        if (!element?.classList) return false;
+    private setupMutationObserver(): void {
+        if (this.mutationObserver) return;
         
-        return (
-            element.classList.contains(this.uiClasses.BADGE) ||
-            element.classList.contains(this.uiClasses.POPUP) ||
-            element.closest(`.${this.uiClasses.BADGE}`) !== null ||
-            element.closest(`.${this.uiClasses.POPUP}`) !== null
-        );
+        this.mutationObserver = new MutationObserver((mutations: MutationRecord[]): void => {
+            const affected = new Set<Element>();
+            const stats: ObserverStats = this.observerStats;
+            
+            for (const mutation of mutations) {
+                stats.mutations++;
+                const widgets: Element[] = this.getDirtiedWidgets(mutation);
+                if (!widgets.length) {
+                    stats.ignored++;
+                    continue;
+                }
+
+                stats.byType[mutation.type]++;
+                if (mutation.attributeName) {
+                    stats.byAttribute[mutation.attributeName] = (stats.byAttribute[mutation.attributeName] || 0) + 1;
+                }
+                stats.lastMutationAt = Date.now();
+                widgets.forEach(w => affected.add(w));
+            }
+            
+            if (affected.size) {
+                stats.widgetsMarked += affected.size;
+                stats.rechecksScheduled++;
+                if (this.config.enableDebugLogging) {
+                    console.log(`[AccessibilityValidator] ${affected.size} widget(s) marked dirty`, Array.from(affected));
+                }
+                this.markDirty(Array.from(affected));
+                this.debounceRecheck();
+            }
+        });
+        
+        this.mutationObserver.observe(document.body, this.getObserverOptions());
+        this.observeNestedRoots(this.getAllWidgets());
+    }
+
+    private getObserverOptions(): MutationObserverInit {
+        const attributes: string[] = this.config.observedAttributes!;
+        const hasWildcard: boolean = attributes.some(name => name.endsWith('*'));
+        return {
+            childList: true,
+            subtree: true,
+            characterData: this.config.observeCharacterData,
+            attributes: attributes.length > 0,
+            attributeOldValue: attributes.length > 0,
+            // Prefix patterns can't be expressed as a filter, so they're matched in isObservedAttribute()
+            ...(attributes.length && !hasWildcard ? { attributeFilter: attributes } : {})
+        };
     }
 
     /**
-     * Check if mutation affects widgets
+     * The observer only sees the light DOM of document.body, so shadow roots in and around
+     * widgets and the documents of same-origin frames inside them are observed separately
      */
-    private affectsWidget(mutation: MutationRecord): boolean {
-        const target = mutation.target as Element;
-        return (
-            this.isTargetWidget(target) ||
-            this.containsWidget(target) ||
-            this.isInsideWidget(target)
+    private observeNestedRoots(widgets: Element[]): void {
+        if (!this.mutationObserver) return;
+
+        const roots: Node[] = [];
+        widgets.forEach(widget => {
+            if (this.config.shadowDom) {
+                for (let root: Node = widget.getRootNode(); root.nodeType === Node.DOCUMENT_FRAGMENT_NODE; root = (root as ShadowRoot).host.getRootNode()) {
+                    roots.push(root);
+                }
+                roots.push(...getShadowRoots(widget));
+            }
+            if (this.config.iframes) {
+                getSameOriginFrames(widget).forEach(frame => {
+                    roots.push(frame.contentDocument!);
+                    this.watchFrameLoad(frame);
+                });
+            }
+        });
+
+        roots.filter(root => !this.observedRoots.has(root)).forEach(root => {
+            this.observedRoots.add(root);
+            this.mutationObserver!.observe(root, this.getObserverOptions());
+        });
+    }
+
+    /**
+     * A frame that (re)loads replaces its document, so recheck the widgets around it
+     */
+    private watchFrameLoad(frame: HTMLIFrameElement): void {
+        if (this.watchedFrames.has(frame)) return;
+        this.watchedFrames.add(frame);
+        frame.addEventListener('load', (): void => {
+            if (!this.mutationObserver) return;
+            this.markDirty(this.getEnclosingWidgets(frame));
+            this.debounceRecheck();
+        });
+    }
+
+    private static createObserverStats(): ObserverStats {
+        return {
+            mutations: 0,
+            ignored: 0,
+            byType: { childList: 0, attributes: 0, characterData: 0 },
+            byAttribute: {},
+            widgetsMarked: 0,
+            rechecksScheduled: 0,
+            lastMutationAt: null
+        };
+    }
+
+    private withoutOutline(className: string | null): string {
+        return (className || '').split(/\s+/)
+            .filter(c => c && c !== this.uiClasses.OUTLINE && !c.startsWith(`${this.uiClasses.OUTLINE}--`))
+            .join(' ');
+    }
+
+    private isObservedAttribute(name: string): boolean {
+        return this.config.observedAttributes!.some(pattern =>
+            pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern
         );
     }
 
     /**
-     * Widget state management
+     * Widgets a mutation makes dirty: empty if it only touches the validator's own UI,
+     * an unobserved attribute or content outside any widget
      */
-    private getWidgetState(widget: Element): WidgetState {
-        return this.widgetCache.get(widget) || { lastViolationCount: -1, hasUI: false };
+    private getDirtiedWidgets(mutation: MutationRecord): Element[] {
+        const target: Element | null = mutation.target.nodeType === Node.ELEMENT_NODE
+            ? mutation.target as Element
+            : mutation.target.parentElement;
+        if (!target || this.isOurUIElement(target)) return [];
+
+        switch (mutation.type) {
+            case 'childList': {
+                const allNodes: Node[] = [
+                    ...Array.from(mutation.addedNodes), 
+                    ...Array.from(mutation.removedNodes)
+                ];
+                const isOurUI: boolean = allNodes.some(node => 
+                    node.nodeType === Node.ELEMENT_NODE && this.isOurUIElement(node as Element)
+                );
+                if (isOurUI) return [];
+
+                // The widgets the change happened in, plus any widgets that were added
+                const widgets: Element[] = this.getEnclosingWidgets(target);
+                mutation.addedNodes.forEach(node => widgets.push(...this.getWidgetsForNode(node)));
+                return widgets;
+            }
+            case 'attributes': {
+                const name: string = mutation.attributeName!;
+                if (!this.isObservedAttribute(name)) return [];
+                // Ignore the validator toggling its own outline class
+                if (name === 'class' && this.withoutOutline(mutation.oldValue) === this.withoutOutline(target.getAttribute('class'))) {
+                    return [];
+                }
+                // An attribute on an ancestor (e.g. `hidden` or `lang`) affects every widget inside it
+                return this.getWidgetsForNode(target);
+            }
+            case 'characterData':
+                return this.getEnclosingWidgets(target);
+            default:
+                return [];
+        }
     }
-    
-    private setWidgetState(widget: Element, state: Partial<WidgetState>): void {
-        this.widgetCache.set(widget, { ...this.getWidgetState(widget), ...state });
+
+    /**
+     * Build axe run options from the rule selection; custom rules always run
+     */
+    private buildAxeOptions(): AxeRunOptions {
+        const { run, overrides } = this.getRulePlan();
+        // Element refs attribute nodes to the right widget when several widgets share markup
+        const axeOptions: AxeRunOptions = { iframes: this.config.iframes, elementRef: true };
+        // Without any selection, run ALL rules (no runOnly restriction)
+        if (run) {
+            axeOptions.runOnly = { type: 'rule', values: [...Array.from(run), ...Array.from(this.customRules.keys())] };
+        } else if (Object.keys(overrides).length) {
+            axeOptions.rules = overrides;
+        }
+        return axeOptions;
     }
 
     /**
-     * Create UI elements
+     * Resolve the page-wide selection and the profiles to rule ids. When they differ,
+     * axe runs their union and each widget's results are narrowed to its own rules.
      */
-    private createBadge(violationCount: number): HTMLButtonElement {
-        const btn: HTMLButtonElement = document.createElement('button');
-        btn.type = 'button';
-        btn.className = this.uiClasses.BADGE;
-        btn.setAttribute('aria-haspopup', 'dialog');
-        btn.setAttribute('aria-expanded', 'false');
-        btn.title = 'Show accessibility issues for this widget';
-        btn.innerHTML = `
-            <span class="${this.uiClasses.BADGE}__icon" aria-hidden="true">
-                ${this.createIcon()}
-            </span>
-            ${violationCount} ${violationCount === 1 ? 'issue' : 'issues'}
-        `;
-        return btn;
+    private getRulePlan(): RulePlan {
+        if (this.rulePlan) return this.rulePlan;
+
+        const page: Set<string> | null = this.resolveRules(this.config, null);
+        const profiles = (this.config.ruleProfiles || []).map(profile => ({
+            selector: profile.selector,
+            rules: this.resolveRules(profile, page)
+        }));
+        const selections: Array<Set<string> | null> = [page, ...profiles.map(profile => profile.rules)];
+
+        if (selections.every(rules => rules === null)) {
+            this.rulePlan = { run: null, overrides: {}, page, profiles };
+            return this.rulePlan;
+        }
+
+        // Mixed with explicit selections, "all rules" has to be spelled out
+        const defaults: Set<string> = this.getDefaultRuleIds();
+        const resolved: Set<string>[] = selections.map(rules => rules ?? defaults);
+        // Unknown ids (reported by validateConfig()) would make axe reject the whole run. Custom
+        // rules are added by buildAxeOptions(), so unregistered ones stay out even when selected by tag.
+        const known = new Set<string>(axe.getRules()
+            .filter(rule => !rule.tags.includes(AccessibilityValidator.CUSTOM_RULE_TAG))
+            .map(rule => rule.ruleId));
+        const selected = new Set<string>(resolved.reduce<string[]>((ids, rules) => ids.concat(Array.from(rules)), []).filter(id => known.has(id)));
+        const plan: Omit<RulePlan, 'run' | 'overrides'> = {
+            page: resolved[0],
+            profiles: profiles.map((profile, i) => ({ selector: profile.selector, rules: resolved[i + 1] }))
+        };
+
+        // Only include/exclude lists: keep axe's defaults and switch the difference on or off
+        if (![this.config, ...(this.config.ruleProfiles || [])].some(selection => this.hasExplicitRules(selection))) {
+            const overrides: Record<string, { enabled: boolean }> = {};
+            selected.forEach(id => { if (!defaults.has(id)) overrides[id] = { enabled: true }; });
+            defaults.forEach(id => { if (!selected.has(id)) overrides[id] = { enabled: false }; });
+            this.rulePlan = { run: null, overrides, ...plan };
+        } else {
+            this.rulePlan = { run: selected, overrides: {}, ...plan };
+        }
+        return this.rulePlan;
     }
 
-    private createPopup(violations: AxeViolation[]): PopupElement {
-        const popup: PopupElement = document.createElement('div') as PopupElement;
-        popup.className = this.uiClasses.POPUP;
-        popup.setAttribute('role', 'dialog');
-        popup.setAttribute('aria-modal', 'false');
-        popup.setAttribute('hidden', '');
-        popup.innerHTML = `
-            <div class="${this.uiClasses.POPUP}__hdr">
-                <h2 class="${this.uiClasses.POPUP}__ttl">Widget accessibility</h2>
-                <button type="button" class="${this.uiClasses.CLOSE}" aria-label="Close">${this.createCloseIcon()}</button>
-            </div>
-            <ul class="wa11y-list">
-                ${violations.map(this.formatViolation.bind(this)).join('')}
-            </ul>
-        `;
-        return popup;
+    /**
+     * Resolve a rule selection; a selection without rules, tags or presets starts from `base`
+     */
+    private resolveRules(selection: RuleSelection, base: Set<string> | null): Set<string> | null {
+        const presets: RulePreset[] = AccessibilityValidator.toPresetNames(selection.preset)
+            .map(name => AccessibilityValidator.PRESETS[name])
+            .filter(Boolean);
+        const tags: string[] = presets.reduce<string[]>((all, preset) => all.concat(preset.tags), [...(selection.axeTags || [])]);
+        const exclude: string[] = presets.reduce<string[]>((all, preset) => all.concat(preset.excludeRules || []), [...(selection.excludeRules || [])]);
+        const include: string[] = selection.includeRules || [];
+
+        let rules: Set<string>;
+        if (selection.axeRules?.length || tags.length) {
+            rules = new Set([...(selection.axeRules || []), ...this.getRuleIdsForTags(tags)]);
+        } else if (base) {
+            rules = new Set(base);
+        } else if (include.length || exclude.length) {
+            rules = this.getDefaultRuleIds();
+        } else {
+            return null;
+        }
+        include.forEach(id => rules.add(id));
+        exclude.forEach(id => rules.delete(id));
+        return rules;
     }
 
-    private createIcon(): string {
-        return `<svg viewBox="0 0 24 24" fill="none" aria-hidden="true">
-            <path d="M12 3l9 16H3L12 3z" stroke="#f0b429" stroke-width="1.5" fill="none"/>
-            <path d="M12 8v6" stroke="#f0b429" stroke-width="1.5"/>
-            <circle cx="12" cy="16.5" r="1" fill="#f0b429"/>
-        </svg>`;
+    private getRuleIdsForTags(tags: string[]): string[] {
+        if (!tags.length) return [];
+        // Like axe's own tag runs, experimental rules only run when asked for by tag
+        return axe.getRules(tags)
+            .filter(rule => tags.includes('experimental') || !rule.tags.includes('experimental'))
+            .map(rule => rule.ruleId);
     }
 
-    private createCloseIcon(): string {
-        return `<svg viewBox="0 0 24 24" fill="none" aria-hidden="true">
-            <path d="M18 6L6 18M6 6l12 12" stroke="currentColor" stroke-width="2" stroke-linecap="round"/>
-        </svg>`;
+    /**
+     * Whether a selection picks rules by id, tag or preset rather than adjusting the defaults
+     */
+    private hasExplicitRules(selection: RuleSelection): boolean {
+        return !!(selection.axeRules?.length || selection.axeTags?.length ||
+            AccessibilityValidator.toPresetNames(selection.preset).some(name => AccessibilityValidator.PRESETS[name]?.tags.length));
     }
 
-    private formatViolation(violation: AxeViolation): string {
-        return `<li class="wa11y-item">
-            <div class="wa11y-rule">[${violation.id}] ${violation.impact ?? ''}</div>
-            <div class="wa11y-msg">${violation.help || violation.description || ''}</div>
-        </li>`;
+    /**
+     * The rules axe runs without a selection: on by default, and not experimental or deprecated
+     */
+    private getDefaultRuleIds(): Set<string> {
+        const excluded: string[] = ['experimental', 'deprecated', AccessibilityValidator.CUSTOM_RULE_TAG];
+        const audit = (axe as AxeCore)._audit;
+        if (audit) {
+            return new Set(audit.rules
+                .filter(rule => rule.enabled !== false && !rule.tags.some(tag => excluded.includes(tag)))
+                .map(rule => rule.id));
+        }
+        return new Set(axe.getRules()
+            .filter(rule => !rule.tags.some(tag => [...excluded, 'wcag2aaa'].includes(tag)))
+            .map(rule => rule.ruleId));
     }
 
     /**
-     * Setup UI interactions
+     * Narrow results to the rules selected for a widget by its profile
      */
-    private setupUIInteractions(btn: HTMLButtonElement, popup: PopupElement, widget: Element): void {
-        const open = (): void => {
-            popup.removeAttribute('hidden');
-            btn.setAttribute('aria-expanded', 'true');
-        };
+    private filterByProfile<T extends { id: string }>(widget: Element | null, issues: T[]): T[] {
+        const plan: RulePlan = this.getRulePlan();
+        if (!plan.run) return issues;
+
+        // Page-level issues (no widget) use the page-wide selection
+        const profile = widget && plan.profiles.find(p => {
+            try {
+                return widget.matches(p.selector);
+            } catch {
+                // Invalid selector in a profile never matches
+                return false;
+            }
+        });
+        const rules: Set<string> | null = profile ? profile.rules : plan.page;
+        return rules ? issues.filter(issue => rules.has(issue.id) || this.customRules.has(issue.id)) : issues;
+    }
+
+    private static toPresetNames(preset: PresetName | PresetName[] | undefined): PresetName[] {
+        return preset === undefined ? [] : Array.isArray(preset) ? preset : [preset];
+    }
+
+    /**
+     * Combine violations and incomplete results based on configuration
+     */
+    private collectIssues({ violations, incomplete }: AxeResults): AxeViolation[] {
+        let allIssues: AxeViolation[] = [...violations];
         
-        const close = (): void => {
-            popup.setAttribute('hidden', '');
-            btn.setAttribute('aria-expanded', 'false');
-        };
+        if (incomplete && incomplete.length > 0) {
+            const includeConfig = this.config.includeIncomplete;
+            
+            if (includeConfig === undefined) {
+                // Default: include only color-contrast incomplete
+                const filtered = incomplete.filter(item => item.id === 'color-contrast');
+                allIssues = [...allIssues, ...(filtered as AxeViolation[])];
+            } else if (includeConfig === true) {
+                // Include ALL incomplete results
+                allIssues = [...allIssues, ...(incomplete as AxeViolation[])];
+            } else if (Array.isArray(includeConfig)) {
+                // Include only specific rule IDs
+                const filtered = incomplete.filter(item => includeConfig.includes(item.id));
+                allIssues = [...allIssues, ...(filtered as AxeViolation[])];
+            }
+            // If false, don't include any (already handled by default allIssues)
+        }
+        
+        return allIssues;
+    }
 
-        const closeOthers = (): void => {
-            document.querySelectorAll<HTMLElement>(`.${this.uiClasses.POPUP}:not([hidden])`).forEach(p => {
-                if (p !== popup) p.setAttribute('hidden', '');
-            });
-        };
+    /**
+     * Debug logging of run results
+     */
+    private logResults({ violations, incomplete }: AxeResults, widgetCount: number): void {
+        const summary: ViolationSummary[] = violations.map(v => ({ 
+            id: v.id, 
+            nodes: v.nodes.length,
+            description: v.description 
+        }));
+        const { run, overrides } = this.getRulePlan();
+        const presets: PresetName[] = AccessibilityValidator.toPresetNames(this.config.preset);
+        const changes: number = Object.keys(overrides).length;
+        const ruleInfo = !run ? (changes ? `default rules with ${changes} switched on or off` : 'ALL available rules') :
+                       presets.length ? `${run.size} rules (preset: ${presets.join(' + ')})` :
+                       this.config.axeTags?.length ? `${run.size} rules (tags: ${this.config.axeTags.join(', ')})` :
+                       `${run.size} specific rules`;
+        const scopeInfo = this.config.auditScope === 'widget' ? `${widgetCount} widget(s)` : 'document';
+        console.log(`[AccessibilityValidator] Checked ${ruleInfo} on ${scopeInfo}, violations found:`, summary);
+        
+        if (this.config.includeIncomplete && incomplete.length > 0) {
+            const incompleteSummary = incomplete.map(v => ({ 
+                id: v.id, 
+                nodes: v.nodes.length,
+                description: v.description 
+            }));
+            console.log(`[AccessibilityValidator] Incomplete results (needs review):`, incompleteSummary);
+        }
+    }
 
-        btn.addEventListener('click', (e: Event): void => {
-            e.stopPropagation();
-            const willOpen: boolean = popup.hasAttribute('hidden');
-            closeOthers();
-            willOpen ? open() : close();
+    /**
+     * Resolve the element an axe node points to: axe's element ref, or its selector
+     * for nodes in frames
+     */
+    private resolveNode(node: AxeNode): Element | null {
+        return node.element ?? (node.target ? resolveTarget(node.target) : null);
+    }
+
+    /**
+     * Get the widgets an issue node counts towards: the innermost widget around it, or
+     * every widget around it with `nestedWidgets: 'all'`. Empty for page-level issues.
+     */
+    private getNodeOwners(node: AxeNode): Element[] {
+        const element: Element | null = this.resolveNode(node);
+        if (!element) return [];
+
+        let owners: Element[] | undefined = this.nodeOwners.get(element);
+        if (!owners) {
+            // Issues in shadow roots and same-origin frames belong to the widgets around them
+            const enclosing: Element[] = this.getEnclosingWidgets(element);
+            owners = this.config.nestedWidgets === 'all' ? enclosing : enclosing.slice(0, 1);
+            this.nodeOwners.set(element, owners);
+        }
+        return owners;
+    }
+
+    /**
+     * Get the results attributed to a widget, narrowed to those nodes
+     */
+    private getWidgetViolations<T extends { nodes: AxeNode[] }>(widget: Element, allIssues: T[]): T[] {
+        return allIssues
+            .map((violation: T): T => ({
+                ...violation,
+                nodes: violation.nodes.filter(node => this.getNodeOwners(node).includes(widget))
+            }))
+            .filter((violation: T): boolean => violation.nodes.length > 0);
+    }
+
+    /**
+     * Get the issues on elements outside every widget, after profiles, suppressions
+     * and the minimum impact
+     */
+    private getPageIssues(results: AxeResults): AxeViolation[] {
+        const issues: AxeViolation[] = this.filterByProfile(null, this.applyImpactOverrides(this.collectIssues(results)))
+            .map((violation: AxeViolation): AxeViolation => ({
+                ...violation,
+                nodes: violation.nodes.filter(node => this.resolveNode(node) !== null && !this.getNodeOwners(node).length)
+            }))
+            .filter((violation: AxeViolation): boolean => violation.nodes.length > 0);
+        return this.splitByMinImpact(this.applySuppressions(null, issues).active).shown;
+    }
+
+    /**
+     * Suppressions
+     */
+    private readStoredSuppressions(): Suppression[] {
+        const key = this.config.suppressionStorageKey;
+        if (!key) return [];
+        try {
+            const stored: unknown = JSON.parse(window.localStorage.getItem(key) || '[]');
+            return Array.isArray(stored) ? stored : [];
+        } catch {
+            return [];
+        }
+    }
+
+    private writeStoredSuppressions(): void {
+        const key = this.config.suppressionStorageKey;
+        if (!key) return;
+        try {
+            window.localStorage.setItem(key, JSON.stringify(this.storedSuppressions));
+        } catch (err) {
+            if (this.config.enableDebugLogging) {
+                console.warn('[AccessibilityValidator] Failed to persist suppressions', err);
+            }
+        }
+    }
+
+    private getActiveSuppressions(): Suppression[] {
+        const now: number = Date.now();
+        return this.getSuppressions().filter(s => !s.expires || new Date(s.expires).getTime() > now);
+    }
+
+    private matchesSuppression(suppression: Suppression, widget: Element | null, ruleId: string, node: AxeNode, fingerprint: string): boolean {
+        if (!suppression.ruleId && !suppression.selector && !suppression.widget && !suppression.fingerprint) {
+            return false;
+        }
+        try {
+            if (suppression.ruleId && suppression.ruleId !== ruleId) return false;
+            if (suppression.fingerprint && suppression.fingerprint !== fingerprint) return false;
+            if (suppression.widget && !widget?.matches(suppression.widget)) return false;
+            if (suppression.selector && !this.resolveNode(node)?.closest(suppression.selector)) return false;
+        } catch {
+            // Invalid selector in a suppression never matches
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Custom rules: register a rule and its check with axe (or a frame's copy of axe)
+     */
+    private configureRule(rule: CustomRule, instance: Pick<AxeCore, 'configure'> = axe): void {
+        if (!rule.id || !rule.selector || typeof rule.evaluate !== 'function' || !rule.help) {
+            throw new Error('[AccessibilityValidator] Custom rules need an id, selector, evaluate function and help text');
+        }
+
+        const checkId: string = `${rule.id}-check`;
+        const impact: Impact = rule.impact ?? 'serious';
+        const { help, description, failureMessage } = { ...rule, ...this.getRuleTranslation(rule.id) };
+        instance.configure({
+            checks: [{
+                id: checkId,
+                evaluate: (element: Element): boolean | undefined => rule.evaluate(element),
+                metadata: {
+                    impact,
+                    messages: {
+                        pass: `Element passes ${rule.id}`,
+                        fail: failureMessage ?? help,
+                        incomplete: failureMessage ?? help
+                    }
+                }
+            }],
+            rules: [{
+                id: rule.id,
+                selector: rule.selector,
+                ...(rule.matches ? { matches: (element: Element): boolean => rule.matches!(element) } : {}),
+                impact,
+                enabled: true,
+                any: [checkId],
+                tags: [AccessibilityValidator.CUSTOM_RULE_TAG, ...(rule.tags || [])],
+                metadata: {
+                    description: description ?? help,
+                    help,
+                    helpUrl: rule.helpUrl ?? ''
+                }
+            }]
         });
+        this.customRules.set(rule.id, rule);
+    }
 
-        const closeButton = popup.querySelector<HTMLButtonElement>(`.${this.uiClasses.CLOSE}`);
-        if (closeButton) {
-            closeButton.addEventListener('click', (e: Event): void => {
-                e.stopPropagation();
-                close();
+    /**
+     * Severity: impact overrides, the minimum impact shown and quality gates
+     */
+    private getNodeImpact(violation: { impact?: string | null }, node: AxeNode): Impact {
+        return (node.impact ?? violation.impact ?? 'minor') as Impact;
+    }
+
+    private applyImpactOverrides<T extends AxeViolation | AxeIncomplete>(issues: T[]): T[] {
+        const overrides: Record<string, Impact> = this.config.impactOverrides || {};
+        return issues.map((issue: T): T => {
+            const impact: Impact | undefined = overrides[issue.id];
+            if (!impact) return issue;
+            return { ...issue, impact, nodes: issue.nodes.map(node => ({ ...node, impact })) };
+        });
+    }
+
+    private splitByMinImpact(violations: AxeViolation[]): { shown: AxeViolation[]; hidden: AxeViolation[] } {
+        const minRank: number = AccessibilityValidator.IMPACT_ORDER.indexOf(this.config.minImpact!);
+        const shown: AxeViolation[] = [];
+        const hidden: AxeViolation[] = [];
+        violations.forEach(violation => {
+            const isShown = (node: AxeNode): boolean =>
+                AccessibilityValidator.IMPACT_ORDER.indexOf(this.getNodeImpact(violation, node)) >= minRank;
+            const shownNodes: AxeNode[] = violation.nodes.filter(isShown);
+            const hiddenNodes: AxeNode[] = violation.nodes.filter(node => !isShown(node));
+            if (shownNodes.length) shown.push({ ...violation, nodes: shownNodes });
+            if (hiddenNodes.length) hidden.push({ ...violation, nodes: hiddenNodes });
+        });
+        return { shown, hidden };
+    }
+
+    private evaluateGate(widget: Element, violations: AxeViolation[]): GateResult {
+        const impacts: Impact[] = violations.reduce<Impact[]>((all, violation) =>
+            all.concat(violation.nodes.map(node => this.getNodeImpact(violation, node))), []);
+        const countFrom = (impact: Impact): number => {
+            const rank: number = AccessibilityValidator.IMPACT_ORDER.indexOf(impact);
+            return impacts.filter(i => AccessibilityValidator.IMPACT_ORDER.indexOf(i) >= rank).length;
+        };
+
+        const breaches: GateBreach[] = [];
+        (this.config.qualityGates || []).forEach(gate => {
+            try {
+                if (gate.selector && !widget.matches(gate.selector)) return;
+            } catch {
+                // Invalid selector in a gate never matches
+                return;
+            }
+            (['fail', 'warn'] as const).forEach(level => {
+                Object.entries(gate[level] || {}).forEach(([impact, allowed]) => {
+                    const count: number = countFrom(impact as Impact);
+                    if (allowed !== undefined && count > allowed) {
+                        breaches.push({ level, impact: impact as Impact, count, allowed, ...(gate.selector ? { selector: gate.selector } : {}) });
+                    }
+                });
             });
-        }
+        });
+
+        const status: GateStatus = breaches.some(b => b.level === 'fail') ? 'fail' : breaches.length ? 'warn' : 'pass';
+        return { status, breaches };
+    }
+
+    /**
+     * Split a widget's issues (or page-level issues, without a widget) into active ones
+     * and suppressed nodes
+     */
+    private applySuppressions(widget: Element | null, violations: AxeViolation[]): { active: AxeViolation[]; suppressed: SuppressedIssue[] } {
+        const suppressions: Suppression[] = this.getActiveSuppressions();
+        const suppressed: SuppressedIssue[] = [];
+        if (!suppressions.length) return { active: violations, suppressed };
+
+        const active: AxeViolation[] = violations
+            .map((violation: AxeViolation): AxeViolation => ({
+                ...violation,
+                nodes: violation.nodes.filter((node: AxeNode): boolean => {
+                    const fingerprint: string = fingerprintIssue(violation.id, node, widget ? this.getMatchedSelector(widget) : '');
+                    const suppression: Suppression | undefined = suppressions.find(s =>
+                        this.matchesSuppression(s, widget, violation.id, node, fingerprint)
+                    );
+                    if (!suppression) return true;
+
+                    suppressed.push({ ruleId: violation.id, violation, node, fingerprint, suppression });
+                    return false;
+                })
+            }))
+            .filter((violation: AxeViolation): boolean => violation.nodes.length > 0);
+
+        return { active, suppressed };
+    }
 
-        const outsideClickHandler = (e: Event): void => {
-            if (e.target && !widget.contains(e.target as Node)) close();
-        };
-        document.addEventListener('click', outsideClickHandler);
-        popup._outsideClickHandler = outsideClickHandler;
+    /**
+     * Dispatch a validator event
+     */
+    private emit<T>(target: EventTarget, type: string, detail: T): void {
+        target.dispatchEvent(new CustomEvent<T>(type, { detail, bubbles: true }));
     }
 
     /**
-     * UI management
+     * Build the run report from the latest per-widget reports
      */
-    private clearWidgetUI(widget: Element): void {
-        widget.classList.remove(this.uiClasses.OUTLINE);
-        widget.querySelectorAll<HTMLElement>(`:scope > .${this.uiClasses.BADGE}, :scope > .${this.uiClasses.POPUP}`).forEach(n => n.remove());
-        this.setWidgetState(widget, { hasUI: false, lastViolationCount: 0 });
+    private buildReport(startedAt: number, runStart: number, auditedCount: number, error?: unknown): ValidationReport {
+        const widgets: WidgetReport[] = Array.from(this.getAllWidgets())
+            .map(widget => this.getWidgetState(widget).report)
+            .filter((report): report is WidgetReport => report !== null);
+
+        const gateCounts: Record<GateStatus, number> = { pass: 0, warn: 0, fail: 0 };
+        widgets.forEach(w => gateCounts[w.gate.status]++);
+
+        const report: ValidationReport = {
+            status: error === undefined ? 'complete' : 'failed',
+            scope: this.config.auditScope!,
+            startedAt,
+            duration: performance.now() - runStart,
+            auditedCount,
+            widgets,
+            pageIssues: this.pageIssues,
+            totals: {
+                widgets: widgets.length,
+                widgetsWithIssues: widgets.filter(w => w.violations.length > 0).length,
+                violations: widgets.reduce((sum, w) => sum + w.violations.length, 0),
+                incomplete: widgets.reduce((sum, w) => sum + w.incomplete.length, 0),
+                nodes: widgets.reduce((sum, w) => sum + w.nodes.length, 0),
+                suppressed: widgets.reduce((sum, w) => sum + w.suppressed.length, 0),
+                added: widgets.reduce((sum, w) => sum + (w.diff?.added.length ?? 0), 0),
+                resolved: widgets.reduce((sum, w) => sum + (w.diff?.resolved.length ?? 0), 0),
+                pageIssues: this.pageIssues.reduce((sum, v) => sum + v.nodes.length, 0)
+            },
+            gate: {
+                status: gateCounts.fail ? 'fail' : gateCounts.warn ? 'warn' : 'pass',
+                ...gateCounts
+            },
+            acknowledgments: [...this.acknowledgments]
+        };
+        if (error !== undefined) report.error = error;
+
+        return report;
     }
 
-    private renderWidgetUI(widget: Element, violations: AxeViolation[]): void {
-        const currentState: WidgetState = this.getWidgetState(widget);
-        const violationCount: number = violations.length;
-        
-        if (currentState.lastViolationCount === violationCount && currentState.hasUI === (violationCount > 0)) {
-            return;
-        }
-        
-        if (!violationCount) {
-            this.clearWidgetUI(widget);
-            return;
+    /**
+     * Queue widgets for auditing. A new run supersedes the one in flight: widgets the
+     * superseded run hasn't finished are carried over, and its promise resolves with
+     * the new run's report.
+     */
+    private audit(widgets: Element[]): Promise<ValidationReport> {
+        // Overlay switched off: report cached results without auditing
+        if (!this.enabled) {
+            return Promise.resolve(this.lastReport ?? this.buildReport(Date.now(), performance.now(), 0));
         }
-        
-        this.clearWidgetUI(widget);
-        widget.classList.add(this.uiClasses.OUTLINE);
 
-        const btn: HTMLButtonElement = this.createBadge(violationCount);
-        const popup: PopupElement = this.createPopup(violations);
-        
-        widget.appendChild(btn);
-        widget.appendChild(popup);
-        
-        this.setupUIInteractions(btn, popup, widget);
-        this.setWidgetState(widget, { hasUI: true, lastViolationCount: violationCount });
+        const targets: Element[] = Array.from(new Set([...this.pendingWidgets, ...widgets]))
+            .filter(widget => widget.isConnected);
+        this.pendingWidgets = new Set(targets);
+
+        const runId: number = ++this.runId;
+        this.activeRun = this.runAudit(runId, targets);
+        return this.activeRun;
     }
 
     /**
-     * CSS injection
+     * Stop in-flight runs without starting a new one
      */
-    private injectCSS(): void {
-        if (document.getElementById('wa11y-style')) return;
+    private cancelRuns(): void {
+        this.runId++;
+        this.activeRun = null;
+        this.pendingWidgets.clear();
+    }
 
-        const defaultCSS = `
-        .${this.uiClasses.OUTLINE}{outline:2px solid #e33;outline-offset:2px;position:relative}
-        .${this.uiClasses.BADGE}{position:absolute;top:6px;right:6px;z-index:99998;display:inline-flex;align-items:center;gap:6px;background:#111;color:#fff;border:1px solid #333;border-radius:999px;font:12px/1 system-ui,-apple-system,Segoe UI,Roboto,Arial;padding:4px 8px;cursor:pointer;box-shadow:0 2px 8px rgba(0,0,0,.2)}
-        .${this.uiClasses.BADGE}__icon{width:14px;height:14px;display:inline-block}
-        .${this.uiClasses.BADGE}__icon svg{width:14px;height:14px;display:block}
-        .${this.uiClasses.POPUP}{position:absolute;top:36px;right:6px;z-index:99999;width:320px;max-width:calc(100vw - 32px);background:#1a1a1a;color:#fff;border:1px solid #333;padding:10px;box-shadow:0 10px 24px rgba(0,0,0,.35)}
-        .${this.uiClasses.POPUP}[hidden]{display:none}
-        .${this.uiClasses.POPUP} *{margin-top:0}
-        .${this.uiClasses.POPUP}__hdr{display:flex;align-items:center;justify-content:space-between;gap:8px;margin-bottom:6px}
-        .${this.uiClasses.POPUP}__ttl{margin:0;font:600 12px/1.3 system-ui;color:#9ee6a7}
-        .${this.uiClasses.CLOSE}{min-height:0;background:none;border:none;color:#fff;cursor:pointer;padding:0;width:16px;height:16px;display:flex;align-items:center;justify-content:center}
-        .${this.uiClasses.CLOSE} svg{width:12px;height:12px;stroke:currentColor}
-        .wa11y-list{margin:0;padding:0;list-style:none;max-height:320px;overflow:auto}
-        .wa11y-item{padding:0}
-        .wa11y-item+.wa11y-item{margin-top:10px}
-        .wa11y-rule{font:600 11px/1.2 system-ui;color:#ddd;margin-bottom:2px}
-        .wa11y-msg{font:12px/1.35 system-ui;color:#cfcfcf}
-        `;
+    private isSuperseded(runId: number): boolean {
+        return runId !== this.runId;
+    }
 
-        const s: HTMLStyleElement = document.createElement('style');
-        s.id = 'wa11y-style';
-        s.textContent = defaultCSS + (this.config.customCSS || '');
-        document.head.appendChild(s);
+    /**
+     * Result of a superseded run: the superseding run's report once it completes
+     */
+    private supersededResult(): Promise<ValidationReport> {
+        return this.activeRun ?? Promise.resolve(this.lastReport ?? this.buildReport(Date.now(), performance.now(), 0));
     }
 
     /**
-     * Event handling setup
+     * Run axe with retries. Runs are serialized, since axe can't run concurrently;
+     * resolves with null if the run was superseded while waiting.
      */
-    private setupEventListeners(): void {
-        // Listen for custom recheck events
-        window.addEventListener('wa11y:recheck', () => this.recheckAll());
-        
-        // Listen for CMS events
-        if (this.config.cmsEvents) {
-            this.config.cmsEvents.forEach((eventName: string): void => {
-                document.addEventListener(eventName, () => this.debounceRecheck(500));
+    private async runAxe(runId: number, include: Array<Element | Document>): Promise<{ results: AxeResults; duration: number } | null> {
+        let attempts: number = 0;
+
+        for (;;) {
+            const run = this.axeQueue.then(async () => {
+                if (this.isSuperseded(runId)) return null;
+                if (this.config.iframes) {
+                    this.prepareFrames(include.includes(document) ? this.getAllWidgets() : include as Element[]);
+                }
+                // The validator's own UI is never audited
+                const context: AxeContext = { include, exclude: this.getOwnUIElements() };
+                const axeStart: number = performance.now();
+                const results: AxeResults = await axe.run(context, this.buildAxeOptions());
+                const duration: number = performance.now() - axeStart;
+                if (this.config.enableDebugLogging) {
+                    this.logResults(results, include.length);
+                }
+                return { results, duration };
             });
-        }
+            this.axeQueue = run.catch(() => undefined);
 
-        // Cleanup on page unload
-        window.addEventListener('beforeunload', () => this.destroy());
+            try {
+                return await run;
+            } catch (err) {
+                attempts++;
+                if (attempts > this.config.maxRetries!) throw err;
+                await new Promise<void>(resolve => setTimeout(resolve, 50));
+            }
+        }
     }
 
     /**
-     * Mutation observer setup
+     * axe only audits frames that have axe loaded, so load it (and the custom rules) into
+     * same-origin frames inside widgets. Frames where the page loaded its own axe are left alone.
      */
-    private setupMutationObserver(): void {
-        if (this.mutationObserver) return;
-        
-        this.mutationObserver = new MutationObserver((mutations: MutationRecord[]): void => {
-            let shouldRecheck: boolean = false;
-            
-            for (const mutation of mutations) {
-                if (this.isOurUIElement(mutation.target as Element)) continue;
-                
-                if (mutation.type === 'attributes' && 
-                    mutation.attributeName === 'class' &&
-                    (mutation.target as Element).classList.contains(this.uiClasses.OUTLINE)) {
-                    continue;
+    private prepareFrames(widgets: Element[]): void {
+        const locale: AxeLocale | null = this.buildAxeLocale();
+        widgets.forEach(widget => getSameOriginFrames(widget).forEach(frame => {
+            const frameWindow = frame.contentWindow as (Window & { axe?: AxeCore; eval(source: string): unknown }) | null;
+            if (!frameWindow) return;
+            try {
+                if (!frameWindow.axe) {
+                    frameWindow.eval(axe.source);
+                    AccessibilityValidator.snapshotAxeLocale(frameWindow.axe!);
+                    this.axeFrames.add(frameWindow);
                 }
-                
-                if (mutation.type === 'childList') {
-                    const allNodes: Node[] = [
-                        ...Array.from(mutation.addedNodes), 
-                        ...Array.from(mutation.removedNodes)
-                    ];
-                    const isOurUI: boolean = allNodes.some(node => 
-                        node.nodeType === Node.ELEMENT_NODE && this.isOurUIElement(node as Element)
-                    );
-                    if (isOurUI) continue;
+                if (this.axeFrames.has(frameWindow)) {
+                    // Start from axe's defaults so locale changes reach frames too
+                    frameWindow.axe!.reset();
+                    this.customRules.forEach(rule => this.configureRule(rule, frameWindow.axe!));
+                    if (locale) frameWindow.axe!.configure({ locale });
                 }
-                
-                if (this.affectsWidget(mutation)) {
-                    if (mutation.type === 'childList') {
-                        shouldRecheck = true;
-                        break;
-                    } else if (mutation.type === 'attributes' && 
-                             AccessibilityValidator.A11Y_ATTRIBUTES.includes(mutation.attributeName as string)) {
-                        shouldRecheck = true;
-                        break;
-                    }
+            } catch (err) {
+                // e.g. a Content Security Policy without 'unsafe-eval'; axe reports the frame as untested
+                if (this.config.enableDebugLogging) {
+                    console.warn('[AccessibilityValidator] Could not load axe into a frame', frame, err);
                 }
             }
-            
-            if (shouldRecheck) {
-                this.debounceRecheck();
-            }
-        });
-        
-        this.mutationObserver.observe(document.body, {
-            childList: true,
-            subtree: true,
-            attributes: true,
-            attributeFilter: [...AccessibilityValidator.A11Y_ATTRIBUTES, 'class']
-        });
+        }));
     }
 
     /**
-     * Main audit function
+     * Audit widgets in idle-time chunks of `batchSize`.
+     * In 'document' scope the whole document is audited in one axe run, which isn't split up,
+     * and only rendering is done chunk by chunk; in 'widget' scope each chunk of widgets is
+     * passed to axe as context.
      */
-    async recheckAll(): Promise<void> {
+    private async runAudit(runId: number, widgets: Element[]): Promise<ValidationReport> {
+        const startedAt: number = Date.now();
+        const runStart: number = performance.now();
+
         this.injectCSS();
+        this.nodeOwners = new WeakMap();
+        // Without widgets, 'document' scope still audits the page once for page-level issues
+        if (!widgets.length && this.config.auditScope === 'widget') {
+            this.pageIssues = [];
+            this.lastReport = this.buildReport(startedAt, runStart, 0);
+            this.lastReportRunId = runId;
+            this.renderSummaryPanel();
+            return this.lastReport;
+        }
 
-        const widgets: NodeListOf<Element> = this.getAllWidgets();
-        if (!widgets.length) return;
+        const batchSize: number = Math.max(1, this.config.batchSize!);
+        const announcements: string[] = [];
+        let documentRun: { results: AxeResults; duration: number } | null = null;
 
-        widgets.forEach(widget => this.clearWidgetUI(widget));
+        for (let i = 0; i < Math.max(widgets.length, 1); i += batchSize) {
+            await whenIdle(this.config.idleTimeout!);
+            if (this.isSuperseded(runId)) return this.supersededResult();
 
-        let attempts: number = 0;
-        let success: boolean = false;
-        
-        while (attempts <= this.config.maxRetries! && !success) {
+            const batch: Element[] = widgets.slice(i, i + batchSize).filter(widget => widget.isConnected);
+            let run: { results: AxeResults; duration: number } | null;
             try {
-                // Build axe options based on configuration
-                const axeOptions: AxeRunOptions = {};
-                
-                // Determine what rules/tags to run
-                if (this.config.axeRules && this.config.axeRules.length > 0) {
-                    // Run specific rules only
-                    axeOptions.runOnly = { type: 'rule', values: this.config.axeRules };
-                } else if (this.config.axeTags && this.config.axeTags.length > 0) {
-                    // Run specific tags only
-                    axeOptions.runOnly = { type: 'tag', values: this.config.axeTags };
-                }
-                // If neither axeRules nor axeTags are specified, run ALL rules (no runOnly restriction)
-                
-                const { violations, incomplete }: AxeResults = await axe.run(document, axeOptions);
-                
-                // Combine violations and incomplete results based on configuration
-                let allIssues: AxeViolation[] = [...violations];
-                
-                if (incomplete && incomplete.length > 0) {
-                    const includeConfig = this.config.includeIncomplete;
-                    
-                    if (includeConfig === undefined) {
-                        // Default: include only color-contrast incomplete
-                        const filtered = incomplete.filter(item => item.id === 'color-contrast');
-                        allIssues = [...allIssues, ...(filtered as AxeViolation[])];
-                    } else if (includeConfig === true) {
-                        // Include ALL incomplete results
-                        allIssues = [...allIssues, ...(incomplete as AxeViolation[])];
-                    } else if (Array.isArray(includeConfig)) {
-                        // Include only specific rule IDs
-                        const filtered = incomplete.filter(item => includeConfig.includes(item.id));
-                        allIssues = [...allIssues, ...(filtered as AxeViolation[])];
-                    }
-                    // If false, don't include any (already handled by default allIssues)
-                }
-                
+                run = this.config.auditScope === 'widget'
+                    ? (batch.length ? await this.runAxe(runId, batch) : null)
+                    : documentRun ?? (documentRun = await this.runAxe(runId, [document]));
+            } catch (err) {
+                if (this.isSuperseded(runId)) return this.supersededResult();
                 if (this.config.enableDebugLogging) {
-                    const summary: ViolationSummary[] = violations.map(v => ({ 
-                        id: v.id, 
-                        nodes: v.nodes.length,
-                        description: v.description 
-                    }));
-                    const ruleInfo = this.config.axeRules?.length ? `${this.config.axeRules.length} specific rules` :
-                                   this.config.axeTags?.length ? `tags: ${this.config.axeTags.join(', ')}` :
-                                   'ALL available rules';
-                    console.log(`[AccessibilityValidator] Checked ${ruleInfo}, violations found:`, summary);
-                    
-                    if (this.config.includeIncomplete && incomplete.length > 0) {
-                        const incompleteSummary = incomplete.map(v => ({ 
-                            id: v.id, 
-                            nodes: v.nodes.length,
-                            description: v.description 
-                        }));
-                        console.log(`[AccessibilityValidator] Incomplete results (needs review):`, incompleteSummary);
-                    }
+                    console.warn('[AccessibilityValidator] axe failed after retries', err);
                 }
-                
-                widgets.forEach((widget: Element): void => {
-                    const widgetViolations: AxeViolation[] = allIssues.filter((violation: AxeViolation): boolean => {
-                        return violation.nodes.some((node: AxeNode): boolean => {
-                            const element: Element | null = node.target ? document.querySelector(node.target.join(' ')) : null;
-                            return element !== null && widget.contains(element);
-                        });
-                    });
-                    
-                    this.renderWidgetUI(widget, widgetViolations);
+                widgets.slice(i).forEach((widget: Element): void => this.renderWidgetUI(widget, []));
+                this.pendingWidgets.clear();
+                this.lastReport = this.buildReport(startedAt, runStart, widgets.length, err);
+                this.lastReportRunId = runId;
+                this.renderSummaryPanel();
+                this.emit<RunFailedDetail>(document, AccessibilityValidator.EVENTS.RUN_FAILED, {
+                    error: err,
+                    attempts: this.config.maxRetries! + 1,
+                    report: this.lastReport
                 });
-                
-                success = true;
-            } catch (err) {
-                attempts++;
-                if (attempts > this.config.maxRetries!) {
-                    if (this.config.enableDebugLogging) {
-                        console.warn('[AccessibilityValidator] axe failed after retries', err);
-                    }
-                    widgets.forEach((widget: Element): void => this.renderWidgetUI(widget, []));
-                } else {
-                    await new Promise<void>(resolve => setTimeout(resolve, 50));
-                }
+                return this.lastReport;
             }
+            if (this.isSuperseded(runId)) return this.supersededResult();
+
+            if (run) {
+                this.renderBatch(batch, run.results, run.duration, announcements);
+            }
+            batch.forEach(widget => this.pendingWidgets.delete(widget));
+        }
+
+        // Widget-scoped runs never look outside widgets
+        this.pageIssues = documentRun ? this.getPageIssues(documentRun.results) : [];
+        this.lastReport = this.buildReport(startedAt, runStart, widgets.length);
+        this.lastReportRunId = runId;
+        this.renderSummaryPanel();
+        this.observeNestedRoots(widgets);
+        this.announce(announcements.filter(Boolean).join('. '));
+        this.recordHistory(this.lastReport);
+        this.emit(document, AccessibilityValidator.EVENTS.RUN_COMPLETE, this.lastReport);
+        return this.lastReport;
+    }
+
+    /**
+     * Swap in new results for a chunk of widgets
+     */
+    private renderBatch(widgets: Element[], results: AxeResults, axeDuration: number, announcements: string[]): void {
+        const allIssues: AxeViolation[] = this.applyImpactOverrides(this.collectIssues(results));
+        const incomplete: AxeIncomplete[] = this.applyImpactOverrides(results.incomplete);
+
+        widgets.forEach((widget: Element): void => {
+            const renderStart: number = performance.now();
+            const { active, suppressed } = this.applySuppressions(
+                widget,
+                this.getWidgetViolations(widget, this.filterByProfile(widget, allIssues))
+            );
+            const { shown: violations, hidden: belowMinImpact } = this.splitByMinImpact(active);
+            const gate: GateResult = this.evaluateGate(widget, violations);
+            const selector: string = this.getMatchedSelector(widget);
+            const previous: WidgetReport | null = this.getWidgetState(widget).report;
+            const diff: IssueDiff | null = previous
+                ? diffIssues(listIssues(previous.violations, previous.selector), listIssues(violations, selector), suppressed)
+                : null;
+            this.renderWidgetUI(widget, violations, new Set(diff?.added.map(issue => issue.node)), gate.status);
+
+            const report: WidgetReport = {
+                element: widget,
+                selector,
+                info: this.getWidgetInfo(widget),
+                violations,
+                incomplete: this.getWidgetViolations(widget, this.filterByProfile(widget, incomplete)),
+                nodes: violations.reduce<AxeNode[]>((nodes, v) => nodes.concat(v.nodes), []),
+                suppressed,
+                belowMinImpact,
+                gate,
+                diff,
+                timings: { axe: axeDuration, render: performance.now() - renderStart },
+                validatedAt: Date.now()
+            };
+            announcements.push(this.describeNewIssues(report));
+            this.setWidgetState(widget, { report });
+            this.emit(widget, AccessibilityValidator.EVENTS.WIDGET_VALIDATED, report);
+        });
+    }
+
+    /**
+     * Recheck widgets marked dirty since the last run.
+     * In 'document' scope (or when nothing is marked dirty) every widget is rechecked.
+     * In 'widget' scope widgets that were never audited are included as well.
+     */
+    private recheckDirty(): Promise<ValidationReport> {
+        const dirty: Element[] = Array.from(this.dirtyWidgets);
+        this.dirtyWidgets.clear();
+
+        if (this.config.auditScope !== 'widget' || !dirty.length) {
+            return this.recheckAll();
         }
+
+        const allWidgets: Element[] = Array.from(this.getAllWidgets());
+        const targets: Element[] = allWidgets.filter(widget =>
+            dirty.includes(widget) || !this.widgetCache.has(widget)
+        );
+        return this.audit(targets);
+    }
+
+    /**
+     * Main audit function
+     */
+    async recheckAll(): Promise<ValidationReport> {
+        this.dirtyWidgets.clear();
+        return this.audit(Array.from(this.getAllWidgets()));
+    }
+
+    /**
+     * Recheck specific widgets only (scoped to those widgets in 'widget' audit scope)
+     */
+    async recheckWidgets(widgets: Element[]): Promise<ValidationReport> {
+        widgets.forEach(widget => this.dirtyWidgets.delete(widget));
+        return this.audit(widgets.filter(widget => widget.isConnected && this.isTargetWidget(widget)));
     }
 
     /**
      * Public API implementation
      */
     debounceRecheck(delay?: number): void {
+        if (!this.enabled) return;
         if (this.recheckTimeout !== undefined) {
             clearTimeout(this.recheckTimeout);
         }
-        this.recheckTimeout = setTimeout(() => this.recheckAll(), delay || this.config.debounceDelay!);
+        this.recheckTimeout = window.setTimeout(() => this.recheckDirty(), delay || this.config.debounceDelay!);
     }
 
     startWatching(): void {
@@ -727,6 +5300,7 @@ class AccessibilityValidator implements AccessibilityValidatorAPI {
         if (this.mutationObserver) {
             this.mutationObserver.disconnect();
             this.mutationObserver = null;
+            this.observedRoots = new WeakSet<Node>();
         }
     }
 
@@ -735,6 +5309,7 @@ class AccessibilityValidator implements AccessibilityValidatorAPI {
     }
 
     addSelectors(selectors: string[]): void {
+        AccessibilityValidator.assertValidConfig({ ...this.config, widgetSelectors: [...this.config.widgetSelectors, ...selectors] }, ['widgetSelectors']);
         this.config.widgetSelectors.push(...selectors);
         this.recheckAll();
     }
@@ -745,10 +5320,52 @@ class AccessibilityValidator implements AccessibilityValidatorAPI {
     }
 
     updateConfig(newConfig: Partial<AccessibilityValidatorConfig>): void {
+        // Nothing changes unless the new config is valid
+        AccessibilityValidator.assertValidConfig({ ...this.config, ...newConfig }, Object.keys(newConfig));
+        // Switching render mode moves all UI, and switching language or guidance rewrites it, so tear down
+        // what was rendered before
+        const localeKeys: Array<keyof AccessibilityValidatorConfig> = ['locale', 'axeLocale', 'translations'];
+        const localeChanged: boolean = localeKeys.some(key => key in newConfig);
+        if ((newConfig.renderMode !== undefined && newConfig.renderMode !== this.config.renderMode) || localeChanged ||
+            newConfig.guidance !== undefined) {
+            this.clearAll();
+            this.teardownUI();
+        }
         this.config = this.mergeConfig({ ...this.config, ...newConfig });
+        if (localeChanged) {
+            this.resetAxeLocale();
+            this.customRules.forEach(rule => this.configureRule(rule));
+            this.applyAxeLocale();
+        }
+        const ruleKeys: Array<keyof AccessibilityValidatorConfig> = ['axeRules', 'axeTags', 'preset', 'includeRules', 'excludeRules', 'ruleProfiles'];
+        if (ruleKeys.some(key => key in newConfig)) {
+            this.rulePlan = null;
+        }
         if (newConfig.uiClasses) {
             this.uiClasses = this.createUIClasses();
         }
+        if (newConfig.guidanceView !== undefined) {
+            this.setGuidanceView(newConfig.guidanceView);
+        }
+        if (newConfig.cmsAdapter !== undefined || newConfig.cmsAdapterOptions !== undefined) {
+            this.cmsAdapter = createCmsAdapter(this.config.cmsAdapter, this.config.cmsAdapterOptions);
+        }
+        if (newConfig.history !== undefined || newConfig.historyOptions !== undefined) {
+            this.historyStore = this.config.history ? createHistoryStore(this.config.history, this.config.historyOptions) : null;
+            this.history = [];
+        }
+        if (newConfig.cmsAdapter !== undefined || newConfig.cmsAdapterOptions !== undefined || newConfig.cmsEvents !== undefined) {
+            this.bindCmsEvents();
+        }
+        if (this.isStarted) {
+            this.renderToggleButton();
+        }
+        // Re-observe with the new attribute set and nested roots
+        if (this.mutationObserver && (newConfig.observedAttributes !== undefined || newConfig.observeCharacterData !== undefined ||
+            newConfig.shadowDom !== undefined || newConfig.iframes !== undefined)) {
+            this.stopWatching();
+            this.startWatching();
+        }
         this.recheckAll();
     }
 
@@ -759,12 +5376,338 @@ class AccessibilityValidator implements AccessibilityValidatorAPI {
         }));
     }
 
+    getLastReport(): ValidationReport | null {
+        return this.lastReport;
+    }
+
+    exportReport(format: ExportFormat): ExportedReport {
+        if (!this.lastReport) {
+            throw new Error('[AccessibilityValidator] No report to export yet, run recheckAll() first');
+        }
+        const text: ReportText = {
+            lang: this.config.locale!,
+            t: (key, params) => this.t(key, params),
+            formatImpact: impact => this.formatImpact(impact)
+        };
+        return serializeReport(this.lastReport, format, text, this.config.sarifOptions);
+    }
+
+    downloadReport(format: ExportFormat = this.config.exportFormat!): void {
+        const { filename, mimeType, content } = this.exportReport(format);
+        const url: string = URL.createObjectURL(new Blob([content], { type: mimeType }));
+        const link: HTMLAnchorElement = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.style.display = 'none';
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
+
+    toggleSummaryPanel(show?: boolean): void {
+        const visible: boolean = show ?? !this.config.enableSummaryPanel;
+        this.config.enableSummaryPanel = visible;
+
+        if (visible) {
+            this.renderSummaryPanel();
+            this.panel?.removeAttribute('hidden');
+        } else if (this.panel) {
+            this.panel.setAttribute('hidden', '');
+        }
+    }
+
+    addSuppressions(suppressions: Suppression[]): void {
+        this.storedSuppressions.push(...suppressions);
+        this.writeStoredSuppressions();
+        this.recheckAll();
+    }
+
+    removeSuppressions(predicate: (suppression: Suppression) => boolean): void {
+        this.storedSuppressions = this.storedSuppressions.filter(s => !predicate(s));
+        this.baselineSuppressions = this.baselineSuppressions.filter(s => !predicate(s));
+        this.config.suppressions = (this.config.suppressions || []).filter(s => !predicate(s));
+        this.writeStoredSuppressions();
+        this.recheckAll();
+    }
+
+    getSuppressions(): Suppression[] {
+        return [...(this.config.suppressions || []), ...this.baselineSuppressions, ...this.storedSuppressions];
+    }
+
+    /**
+     * Replace the baseline's suppressions. They aren't persisted, and results update on the next audit.
+     */
+    async loadBaseline(source: string | BaselineFile): Promise<void> {
+        let baseline: BaselineFile;
+        if (typeof source === 'string') {
+            const response: Response = await fetch(source);
+            if (!response.ok) {
+                throw new Error(`[AccessibilityValidator] Failed to load baseline from ${source} (${response.status})`);
+            }
+            baseline = await response.json();
+        } else {
+            baseline = source;
+        }
+
+        if (!baseline || !Array.isArray(baseline.suppressions)) {
+            throw new Error('[AccessibilityValidator] Invalid baseline: expected { "suppressions": [...] }');
+        }
+
+        this.baselineSuppressions = [...baseline.suppressions];
+        // Earlier versions persisted baseline entries with the runtime ones; drop those copies
+        const keys: Set<string> = new Set(baseline.suppressions.map(s => JSON.stringify(s)));
+        const stored: number = this.storedSuppressions.length;
+        this.storedSuppressions = this.storedSuppressions.filter(s => !keys.has(JSON.stringify(s)));
+        if (this.storedSuppressions.length !== stored) this.writeStoredSuppressions();
+    }
+
+    createBaseline(reason: string): BaselineFile {
+        const suppressions: Suppression[] = (this.lastReport?.widgets ?? []).reduce<Suppression[]>((list, widget) =>
+            list.concat(widget.violations.reduce<Suppression[]>((entries, violation) =>
+                entries.concat(violation.nodes.map(node => ({
+                    ruleId: violation.id,
+                    fingerprint: fingerprintIssue(violation.id, node, widget.selector),
+                    reason
+                }))), [])), []);
+
+        return { version: 1, suppressions };
+    }
+
+    registerRule(rule: CustomRule): void {
+        this.configureRule(rule);
+        this.rulePlan = null;
+        this.recheckAll();
+    }
+
+    unregisterRule(id: string): void {
+        if (!this.customRules.has(id)) return;
+        // axe can't remove a rule: disabled, it stays out of default runs, and the rule plan
+        // keeps it out of `runOnly`. Frames get their copy of axe reset before each run.
+        axe.configure({ rules: [{ id, enabled: false }] });
+        this.customRules.delete(id);
+        this.rulePlan = null;
+        this.recheckAll();
+    }
+
+    getCustomRules(): CustomRule[] {
+        return Array.from(this.customRules.values());
+    }
+
     getConfig(): AccessibilityValidatorConfig {
         return { ...this.config };
     }
 
+    getCmsAdapter(): CmsAdapter {
+        return this.cmsAdapter;
+    }
+
+    getObserverStats(): ObserverStats {
+        const stats: ObserverStats = this.observerStats;
+        return { ...stats, byType: { ...stats.byType }, byAttribute: { ...stats.byAttribute } };
+    }
+
+    async guardPublish(): Promise<PublishDecision> {
+        // The overlay may be off, but publishing is still checked; it stays on if the page is held back
+        const wasEnabled: boolean = this.enabled;
+        if (!wasEnabled) this.enable();
+        const rechecking: Promise<ValidationReport> = this.recheckAll();
+        const runId: number = this.runId;
+        const report: ValidationReport = await rechecking;
+        // Cancelled (e.g. the overlay was switched off meanwhile) or failed: nothing fresh was checked
+        const failed: boolean = report.status === 'failed' || this.lastReportRunId < runId || report !== this.lastReport;
+        const blocking: WidgetReport[] = this.getBlockingWidgets(report);
+        if (!failed && !blocking.length) {
+            if (!wasEnabled) this.disable();
+            return { proceed: true, report };
+        }
+
+        // A run that failed or was cancelled holds the page back like failing widgets do
+        this.emit(document, AccessibilityValidator.EVENTS.PUBLISH_BLOCKED, report);
+        // Without UI there's no way to acknowledge
+        if (this.config.renderMode === 'none') return { proceed: false, report };
+
+        const allowAcknowledge: boolean = this.getPublishGuardOptions()?.allowAcknowledge ?? true;
+        const reason: string | null = await this.showPublishDialog(failed ? [] : blocking, allowAcknowledge);
+        if (reason === null) return { proceed: false, report };
+
+        const acknowledgment: PublishAcknowledgment = {
+            reason,
+            acknowledgedAt: Date.now(),
+            url: window.location.href,
+            issues: blocking.reduce<PublishAcknowledgment['issues']>((issues, widget) => issues.concat(
+                listIssues(widget.violations, widget.selector).map(({ ruleId, node, violation, fingerprint }) => ({
+                    widget: this.getWidgetLabel(widget),
+                    ruleId,
+                    impact: this.getNodeImpact(violation, node),
+                    fingerprint
+                }))
+            ), [])
+        };
+        this.acknowledgments.push(acknowledgment);
+        if (this.lastReport) {
+            this.lastReport.acknowledgments = [...this.acknowledgments];
+        }
+        this.emit(document, AccessibilityValidator.EVENTS.PUBLISH_ACKNOWLEDGED, acknowledgment);
+        return { proceed: true, report: this.lastReport ?? report, acknowledgment };
+    }
+
+    getAcknowledgments(): PublishAcknowledgment[] {
+        return [...this.acknowledgments];
+    }
+
+    /**
+     * Recorded runs of a page (the current page by default), oldest first
+     */
+    async getHistory(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+        const store: HistoryStore = this.requireHistoryStore();
+        await this.historyWrite;
+        const entries: HistoryEntry[] = (await store.load(query.page ?? this.getPageKey())).filter(entry =>
+            (query.since === undefined || entry.recordedAt >= query.since) &&
+            (query.until === undefined || entry.recordedAt <= query.until)
+        );
+        return query.limit === undefined ? entries : entries.slice(Math.max(0, entries.length - query.limit));
+    }
+
+    async getHistoryTrend(query: HistoryQuery = {}): Promise<HistoryTrend> {
+        return summarizeTrend(query.page ?? this.getPageKey(), await this.getHistory(query));
+    }
+
+    async clearHistory(page: string = this.getPageKey()): Promise<void> {
+        const store: HistoryStore = this.requireHistoryStore();
+        await this.historyWrite;
+        await store.clear(page);
+        if (page === this.getPageKey()) {
+            this.history = [];
+            if (this.panel) this.renderTrend();
+        }
+    }
+
+    /**
+     * Audit history: the key runs of this page are recorded under
+     */
+    private getPageKey(): string {
+        const pageKey: (() => string) | undefined = this.config.historyOptions?.pageKey;
+        return pageKey ? pageKey() : window.location.origin + window.location.pathname;
+    }
+
+    private requireHistoryStore(): HistoryStore {
+        if (!this.historyStore) {
+            throw new Error('[AccessibilityValidator] History is off, set the `history` option');
+        }
+        return this.historyStore;
+    }
+
+    private createHistoryEntry(report: ValidationReport, page: string): HistoryEntry {
+        const byImpact: Record<Impact, number> = { minor: 0, moderate: 0, serious: 0, critical: 0 };
+        const issues: Array<{ fingerprint: string; key: string }> = [];
+        report.widgets.forEach(widget => listIssues(widget.violations, widget.selector).forEach(({ ruleId, violation, node, fingerprint }) => {
+            byImpact[this.getNodeImpact(violation, node)]++;
+            issues.push({ fingerprint, key: `${ruleId}:${hashString(issueKey(ruleId, node))}` });
+        }));
+        issues.sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+        return {
+            page,
+            recordedAt: report.startedAt,
+            scope: report.scope,
+            widgets: report.totals.widgets,
+            widgetsWithIssues: report.totals.widgetsWithIssues,
+            issues: issues.length,
+            byImpact,
+            suppressed: report.totals.suppressed,
+            pageIssues: report.totals.pageIssues,
+            gate: report.gate.status,
+            fingerprints: issues.map(issue => issue.fingerprint),
+            keys: issues.map(issue => issue.key)
+        };
+    }
+
+    /**
+     * Record a run. Runs with the same issues as the last recorded one are skipped, and writes
+     * are queued so overlapping runs don't overwrite each other.
+     */
+    private recordHistory(report: ValidationReport): void {
+        const store: HistoryStore | null = this.historyStore;
+        if (!store) return;
+        const page: string = this.getPageKey();
+        const entry: HistoryEntry = this.createHistoryEntry(report, page);
+        const { maxEntries, minInterval } = { ...AccessibilityValidator.DEFAULT_HISTORY_OPTIONS, ...this.config.historyOptions };
+
+        this.historyWrite = this.historyWrite.then(async (): Promise<void> => {
+            // Reload first: another tab may have recorded runs of the same page
+            const entries: HistoryEntry[] = await store.load(page);
+            const last: HistoryEntry | undefined = entries[entries.length - 1];
+            const unchanged: boolean = !!last &&
+                last.widgets === entry.widgets &&
+                last.suppressed === entry.suppressed &&
+                last.pageIssues === entry.pageIssues &&
+                last.keys.join() === entry.keys.join();
+            if (!unchanged) {
+                if (last && entry.recordedAt - last.recordedAt < minInterval) entries.pop();
+                entries.push(entry);
+                entries.splice(0, Math.max(0, entries.length - maxEntries));
+                await store.save(page, entries);
+            }
+            if (store === this.historyStore && page === this.getPageKey()) {
+                this.history = entries;
+                // Only the trend depends on history; the rest of the panel is current
+                if (this.panel) this.renderTrend();
+            }
+        }).catch((err: unknown): void => {
+            if (this.config.enableDebugLogging) {
+                console.warn('[AccessibilityValidator] Failed to record history', err);
+            }
+        });
+    }
+
+    enable(): void {
+        // Explicit enable starts the validator even if the activation policy wasn't met
+        if (!this.isStarted) {
+            this.start();
+            return;
+        }
+        if (this.enabled) return;
+
+        this.enabled = true;
+        this.injectCSS();
+        this.renderToggleButton();
+        if (this.config.enableSummaryPanel) {
+            this.panel?.removeAttribute('hidden');
+        }
+        this.startWatching();
+        this.recheckAll();
+    }
+
+    disable(): void {
+        if (!this.enabled) return;
+
+        this.enabled = false;
+        this.stopWatching();
+        this.cancelRuns();
+        if (this.recheckTimeout !== undefined) {
+            clearTimeout(this.recheckTimeout);
+            this.recheckTimeout = undefined;
+        }
+        this.dirtyWidgets.clear();
+        this.clearAll();
+        this.hideHighlight();
+        this.panel?.setAttribute('hidden', '');
+        this.renderToggleButton();
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
     destroy(): void {
         this.stopWatching();
+        this.unbindCmsEvents();
+        this.cancelRuns();
+        this.enabled = false;
+        window.removeEventListener('wa11y:recheck', this.recheckEventHandler);
+        window.removeEventListener('beforeunload', this.unloadHandler);
+        document.removeEventListener('keydown', this.shortcutHandler);
+        window.removeEventListener('click', this.publishClickHandler, true);
         if (this.recheckTimeout !== undefined) {
             clearTimeout(this.recheckTimeout);
         }
@@ -777,11 +5720,15 @@ class AccessibilityValidator implements AccessibilityValidatorAPI {
             }
         });
 
+        this.teardownUI();
+
         // Remove CSS if no other instances
         const styleElement = document.getElementById('wa11y-style');
         if (styleElement) {
             styleElement.remove();
         }
+        this.shadowStyles.forEach(style => style.remove());
+        this.shadowStyles.clear();
     }
 }
 
@@ -790,19 +5737,74 @@ function createAccessibilityValidator(config: AccessibilityValidatorConfig): Acc
     return new AccessibilityValidator(config);
 }
 
+// Check a config without creating a validator, e.g. in build scripts
+function validateConfig(config: unknown): ConfigValidationResult {
+    return AccessibilityValidator.validateConfig(config);
+}
+
 // ES Module export for modern usage
 // Expose on window for backward compatibility (UMD/browser global)
 if (typeof window !== 'undefined') {
     (window as any).AccessibilityValidator = AccessibilityValidator;
     (window as any).createAccessibilityValidator = createAccessibilityValidator;
+    (window as any).validateConfig = validateConfig;
 }
 
 // ES Module export for modern usage
 export default AccessibilityValidator;
-export { createAccessibilityValidator };
+export { createAccessibilityValidator, validateConfig, formatTarget, SitefinityAdapter, DataAttributeAdapter, LocalStorageHistoryStore, IndexedDBHistoryStore };
 export type {
     AccessibilityValidatorConfig,
     AccessibilityValidatorAPI,
     AxeResults,
-    AxeViolation
+    AxeViolation,
+    AxeIncomplete,
+    AxeNode,
+    WidgetState,
+    WidgetReport,
+    ValidationReport,
+    RunFailedDetail,
+    ExportFormat,
+    ExportedReport,
+    SarifOptions,
+    PanelDock,
+    NestedWidgets,
+    Impact,
+    Suppression,
+    BaselineFile,
+    SuppressedIssue,
+    CustomRule,
+    SitefinityAdapterOptions,
+    DataAttributeAdapterOptions,
+    CmsAdapter,
+    CmsAdapterName,
+    WidgetInfo,
+    ActivationPolicy,
+    ObserverStats,
+    IssueRef,
+    IssueDiff,
+    GateStatus,
+    QualityGate,
+    PresetName,
+    RuleProfile,
+    ConfigProblem,
+    ConfigValidationResult,
+    UIMessages,
+    PluralMessage,
+    LocaleTranslations,
+    RuleTranslation,
+    RuleGuidance,
+    GuidanceView,
+    AxeLocale,
+    GateBreach,
+    GateResult,
+    PublishGuardOptions,
+    PublishAcknowledgment,
+    PublishDecision,
+    HistoryStoreName,
+    HistoryStore,
+    HistoryOptions,
+    HistoryEntry,
+    HistoryQuery,
+    HistoryTrend
 };
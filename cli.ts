@@ -0,0 +1,178 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { auditFiles, checkThresholds, countIssues } from './headless';
+import type { HeadlessResult } from './headless';
+import { formatTarget } from './AccessibilityValidator';
+import type { AccessibilityValidatorConfig, ExportFormat, Impact, PresetName } from './AccessibilityValidator';
+
+type OutputFormat = ExportFormat | 'text';
+
+const EXIT_PASSED = 0;
+const EXIT_THRESHOLD_EXCEEDED = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: sitefinity-a11y [options] <file|directory...>
+
+Audits exported HTML pages with jsdom and exits non-zero when issues exceed the threshold.
+
+Options:
+  -c, --config <file>         Validator config (.json, or .js/.cjs exporting an object)
+  -s, --selector <selector>   Widget selector to audit (repeatable, added to the config's)
+  -p, --preset <preset>       Rule preset, e.g. wcag21aa, wcag22aa, section508, en301549 (repeatable, replaces the config's)
+  -l, --locale <locale>       Language of rule help text in reports, e.g. fr (default: the config's, or en)
+  -f, --format <format>       text, json, csv, sarif or html (default: text)
+  -o, --output-dir <dir>      Write one report per page instead of printing
+      --max-issues <n>        Issues allowed across all pages (default: 0)
+      --min-impact <impact>   Only count minor, moderate, serious or critical issues and above (default: minor)
+      --base-url <url>        URL pages are loaded under (default: their file URL)
+      --gate                  Also fail when a widget fails the config's quality gates
+      --ignore-page-issues    Don't count issues outside widgets
+  -h, --help                  Show this help
+
+Exit codes: 0 passed, 1 threshold exceeded, 2 error (including no widgets found on any page)`;
+
+async function loadConfig(file: string | undefined): Promise<AccessibilityValidatorConfig> {
+    if (!file) return { widgetSelectors: [] };
+    const resolved: string = path.resolve(file);
+    if (path.extname(resolved) === '.json') {
+        return JSON.parse(await fs.readFile(resolved, 'utf8'));
+    }
+    const loaded = require(resolved);
+    return loaded.default ?? loaded;
+}
+
+function formatText(result: HeadlessResult, minImpact: Impact, includePageIssues: boolean): string {
+    const { report } = result;
+    const lines: string[] = [
+        `${result.file ? path.relative(process.cwd(), result.file) : result.url}: ` +
+        (report.status === 'failed'
+            ? `axe failed (${String(report.error)})`
+            : `${countIssues(report, minImpact, includePageIssues)} issue(s) in ${report.totals.widgetsWithIssues} of ${report.totals.widgets} widgets, gate ${report.gate.status}`)
+    ];
+    report.widgets
+        .filter(widget => widget.violations.length > 0)
+        .forEach(widget => {
+            lines.push(`  ${widget.info.label} (${widget.gate.status})`);
+            widget.violations.forEach(violation => violation.nodes.forEach(node => {
+                lines.push(`    [${violation.id}] ${node.impact ?? violation.impact ?? ''}  ${violation.help}  ${formatTarget(node.target)}`);
+            }));
+        });
+    if (report.pageIssues.length) {
+        lines.push(`  Page-level (outside widgets${includePageIssues ? '' : ', not counted'})`);
+        report.pageIssues.forEach(violation => violation.nodes.forEach(node => {
+            lines.push(`    [${violation.id}] ${node.impact ?? violation.impact ?? ''}  ${violation.help}  ${formatTarget(node.target)}`);
+        }));
+    }
+    return lines.join('\n');
+}
+
+async function main(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            config: { type: 'string', short: 'c' },
+            selector: { type: 'string', short: 's', multiple: true },
+            preset: { type: 'string', short: 'p', multiple: true },
+            locale: { type: 'string', short: 'l' },
+            format: { type: 'string', short: 'f', default: 'text' },
+            'output-dir': { type: 'string', short: 'o' },
+            'max-issues': { type: 'string', default: '0' },
+            'min-impact': { type: 'string', default: 'minor' },
+            'base-url': { type: 'string' },
+            gate: { type: 'boolean' },
+            'ignore-page-issues': { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return EXIT_PASSED;
+    }
+    const format = values.format as OutputFormat;
+    const minImpact = values['min-impact'] as Impact;
+    const maxIssues: number = Number(values['max-issues']);
+    if (!positionals.length ||
+        !['text', 'json', 'csv', 'sarif', 'html'].includes(format) ||
+        !['minor', 'moderate', 'serious', 'critical'].includes(minImpact) ||
+        !Number.isInteger(maxIssues) || maxIssues < 0) {
+        console.error(USAGE);
+        return EXIT_ERROR;
+    }
+
+    const config: AccessibilityValidatorConfig = await loadConfig(values.config);
+    config.widgetSelectors = [...(config.widgetSelectors || []), ...(values.selector || [])];
+    if (values.preset?.length) {
+        config.preset = values.preset as PresetName[];
+    }
+    if (values.locale) {
+        config.locale = values.locale;
+    }
+    // SARIF locations relative to where the pages were found, unless the config says otherwise
+    config.sarifOptions = {
+        baseUri: values['base-url'] ?? pathToFileURL(`${process.cwd()}${path.sep}`).href,
+        ...config.sarifOptions
+    };
+
+    const results: HeadlessResult[] = await auditFiles(positionals, config, {
+        url: values['base-url'],
+        formats: format === 'text' ? [] : [format]
+    });
+
+    const outputDir: string | undefined = values['output-dir'];
+    for (const result of results) {
+        // Flatten the page's relative path so pages with the same name don't collide
+        const relative: string = result.file ? path.relative(process.cwd(), result.file) : 'page';
+        const name: string = relative.slice(0, relative.length - path.extname(relative).length).replace(/[\\/:]/g, '_');
+        if (format === 'text') {
+            const text: string = formatText(result, minImpact, !values['ignore-page-issues']);
+            if (outputDir) {
+                await fs.mkdir(outputDir, { recursive: true });
+                await fs.writeFile(path.join(outputDir, `${name}.txt`), `${text}\n`);
+            } else {
+                console.log(text);
+            }
+            continue;
+        }
+
+        const exported = result.exports[format]!;
+        if (outputDir) {
+            await fs.mkdir(outputDir, { recursive: true });
+            await fs.writeFile(path.join(outputDir, `${name}${path.extname(exported.filename)}`), exported.content);
+        } else {
+            console.log(exported.content);
+        }
+    }
+
+    // Selectors that match nothing would otherwise pass every page
+    const withoutWidgets: HeadlessResult[] = results.filter(result => result.report.status === 'complete' && !result.report.totals.widgets);
+    withoutWidgets.forEach(result => {
+        console.error(`Warning: no widgets matched in ${result.file ? path.relative(process.cwd(), result.file) : result.url}; only page-level issues were checked`);
+    });
+    if (results.length && withoutWidgets.length === results.length) {
+        console.error(`ERROR: no widgets matched on any page. Check --selector and the config's widgetSelectors (${config.widgetSelectors.join(', ') || 'none given'})`);
+        return EXIT_ERROR;
+    }
+
+    const { passed, issues } = checkThresholds(results, {
+        maxIssues,
+        minImpact,
+        failOnGate: values.gate,
+        ignorePageIssues: values['ignore-page-issues']
+    });
+    console.error(`${passed ? 'PASSED' : 'FAILED'}: ${issues} issue(s) at ${minImpact} impact or above across ${results.length} page(s), ${maxIssues} allowed`);
+    return passed ? EXIT_PASSED : EXIT_THRESHOLD_EXCEEDED;
+}
+
+main(process.argv.slice(2)).then(
+    code => { process.exitCode = code; },
+    (err: unknown) => {
+        // Errors thrown inside jsdom come from another realm, so `instanceof Error` doesn't hold
+        const message: unknown = (err as Error | null)?.message;
+        console.error(typeof message === 'string' ? message : err);
+        process.exitCode = EXIT_ERROR;
+    }
+);
@@ -0,0 +1,220 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type {
+    AccessibilityValidatorAPI,
+    AccessibilityValidatorConfig,
+    AxeLocale,
+    ExportFormat,
+    ExportedReport,
+    Impact,
+    ValidationReport
+} from './AccessibilityValidator';
+
+// Options for loading a page into jsdom
+interface HeadlessOptions {
+    /** URL the page is loaded under (optional, defaults to 'http://localhost/', or the file URL for files) */
+    url?: string;
+    /** Report formats to serialize (optional, defaults to ['json']) */
+    formats?: ExportFormat[];
+    /** Forward the page's console output, including jsdom's "not implemented" errors (optional, defaults to false) */
+    forwardConsole?: boolean;
+}
+
+// Result of auditing one page
+interface HeadlessResult {
+    /** File the page was loaded from, if any */
+    file?: string;
+    url: string;
+    /** Report of the audit; elements belong to the (closed) jsdom window */
+    report: ValidationReport;
+    /** Serialized reports, by format */
+    exports: Partial<Record<ExportFormat, ExportedReport>>;
+}
+
+// Limits that fail a headless audit
+interface HeadlessThresholds {
+    /** Issues (failing nodes) allowed per run (optional, defaults to 0) */
+    maxIssues?: number;
+    /** Only count issues at or above this impact (optional, defaults to 'minor') */
+    minImpact?: Impact;
+    /** Also fail when any widget fails its quality gates (optional, defaults to false) */
+    failOnGate?: boolean;
+    /** Leave page-level issues outside widgets out of the count (optional, defaults to false) */
+    ignorePageIssues?: boolean;
+}
+
+type ValidatorConstructor = new (config: AccessibilityValidatorConfig) => AccessibilityValidatorAPI;
+
+const IMPACT_ORDER: readonly Impact[] = ['minor', 'moderate', 'serious', 'critical'];
+const HTML_EXTENSIONS: readonly string[] = ['.html', '.htm'];
+
+let bundleSource: Promise<string> | null = null;
+
+/**
+ * Load jsdom, which is an optional peer dependency only needed for headless audits
+ */
+async function loadJsdom(): Promise<typeof import('jsdom')> {
+    try {
+        return await import('jsdom');
+    } catch {
+        throw new Error('[AccessibilityValidator] Headless audits need jsdom: npm install --save-dev jsdom');
+    }
+}
+
+/**
+ * The browser (UMD) build is evaluated inside each jsdom window, so axe and the
+ * validator see the page's own globals
+ */
+function readBundle(): Promise<string> {
+    if (!bundleSource) {
+        bundleSource = fs.readFile(path.join(__dirname, 'accessibility-validator.umd.js'), 'utf8');
+    }
+    return bundleSource;
+}
+
+/**
+ * Load the axe-core locale file for a locale ('fr-CA' tries fr_CA.json, then fr.json), if axe ships one
+ */
+async function loadAxeLocale(locale: string): Promise<AxeLocale | undefined> {
+    const localesDir: string = path.join(path.dirname(require.resolve('axe-core/package.json')), 'locales');
+    const [language, region] = locale.split(/[-_]/);
+    const candidates: string[] = region ? [`${language}_${region.toUpperCase()}`, language] : [language];
+    for (const name of candidates) {
+        try {
+            return JSON.parse(await fs.readFile(path.join(localesDir, `${name}.json`), 'utf8'));
+        } catch {
+            // No locale file under this name
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Audit an HTML document with the same widget selectors, rules and suppressions as in the browser.
+ * With a `locale` and no `axeLocale`, axe-core's own locale file for that language is used.
+ * Incomplete results are left out unless `includeIncomplete` is set.
+ */
+async function auditHtml(html: string, config: AccessibilityValidatorConfig, options: HeadlessOptions = {}): Promise<HeadlessResult> {
+    const { JSDOM, VirtualConsole } = await loadJsdom();
+    const url: string = options.url ?? 'http://localhost/';
+    const axeLocale: AxeLocale | undefined = config.axeLocale ??
+        (config.locale ? await loadAxeLocale(config.locale) : undefined);
+
+    const virtualConsole = new VirtualConsole();
+    if (options.forwardConsole) {
+        virtualConsole.sendTo(console);
+    }
+    const dom = new JSDOM(html, { url, runScripts: 'outside-only', pretendToBeVisual: true, includeNodeLocations: true, virtualConsole });
+    const { window } = dom;
+
+    try {
+        window.eval(await readBundle());
+        const exported = (window as unknown as { AccessibilityValidator: ValidatorConstructor | { default: ValidatorConstructor } })
+            .AccessibilityValidator;
+        const Validator: ValidatorConstructor = 'default' in exported ? exported.default : exported;
+
+        // No UI, no watching and no browser-only state; just audit
+        const validator: AccessibilityValidatorAPI = new Validator({
+            ...config,
+            ...(axeLocale ? { axeLocale } : {}),
+            // jsdom can't compute contrast, so the browser default would flag every page with text
+            includeIncomplete: config.includeIncomplete ?? false,
+            // SARIF results point at the element's line in the audited HTML
+            sarifOptions: {
+                locate: (element: Element) => {
+                    const location = dom.nodeLocation(element);
+                    return location ? { startLine: location.startLine, startColumn: location.startCol } : null;
+                },
+                ...config.sarifOptions
+            },
+            renderMode: 'none',
+            activation: 'always',
+            enableMutationObserver: false,
+            enableSummaryPanel: false,
+            toggleShortcut: false,
+            showToggleButton: false,
+            suppressionStorageKey: false,
+            history: false,
+            publishGuard: false
+        });
+
+        const report: ValidationReport = await validator.recheckAll();
+        const exports: Partial<Record<ExportFormat, ExportedReport>> = {};
+        (options.formats ?? ['json']).forEach(format => {
+            exports[format] = validator.exportReport(format);
+        });
+        validator.destroy();
+
+        return { url, report, exports };
+    } finally {
+        window.close();
+    }
+}
+
+/**
+ * Audit HTML files; directories are searched recursively for .html/.htm files
+ */
+async function auditFiles(paths: string[], config: AccessibilityValidatorConfig, options: HeadlessOptions = {}): Promise<HeadlessResult[]> {
+    const files: string[] = [];
+    for (const entry of paths) {
+        files.push(...await collectHtmlFiles(path.resolve(entry)));
+    }
+
+    // One page at a time keeps memory bounded on large exports
+    const results: HeadlessResult[] = [];
+    for (const file of files) {
+        const html: string = await fs.readFile(file, 'utf8');
+        const url: string = options.url
+            ? new URL(path.relative(process.cwd(), file).split(path.sep).join('/'), options.url).href
+            : pathToFileURL(file).href;
+        results.push({ file, ...await auditHtml(html, config, { ...options, url }) });
+    }
+    return results;
+}
+
+async function collectHtmlFiles(entry: string): Promise<string[]> {
+    const stat = await fs.stat(entry);
+    if (!stat.isDirectory()) return [entry];
+
+    const files: string[] = [];
+    const children = await fs.readdir(entry, { withFileTypes: true });
+    for (const child of children.sort((a, b) => a.name.localeCompare(b.name))) {
+        const childPath: string = path.join(entry, child.name);
+        if (child.isDirectory()) {
+            files.push(...await collectHtmlFiles(childPath));
+        } else if (HTML_EXTENSIONS.includes(path.extname(child.name).toLowerCase())) {
+            files.push(childPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Count issues (failing nodes) at or above an impact level, in widgets and, unless
+ * `includePageIssues` is false, outside them
+ */
+function countIssues(report: ValidationReport, minImpact: Impact = 'minor', includePageIssues: boolean = true): number {
+    const minLevel: number = IMPACT_ORDER.indexOf(minImpact);
+    const count = (violations: ValidationReport['pageIssues']): number => violations.reduce((sum, violation) =>
+        sum + violation.nodes.filter(node => {
+            const impact = node.impact ?? violation.impact;
+            return !impact || IMPACT_ORDER.indexOf(impact) >= minLevel;
+        }).length, 0);
+    return report.widgets.reduce((sum, widget) => sum + count(widget.violations), 0) +
+        (includePageIssues ? count(report.pageIssues) : 0);
+}
+
+/**
+ * Check results against thresholds; failed axe runs always fail
+ */
+function checkThresholds(results: HeadlessResult[], thresholds: HeadlessThresholds = {}): { passed: boolean; issues: number } {
+    const issues: number = results.reduce((sum, result) =>
+        sum + countIssues(result.report, thresholds.minImpact, !thresholds.ignorePageIssues), 0);
+    const failedRuns: boolean = results.some(result => result.report.status === 'failed');
+    const failedGates: boolean = !!thresholds.failOnGate && results.some(result => result.report.gate.status === 'fail');
+    return { passed: !failedRuns && !failedGates && issues <= (thresholds.maxIssues ?? 0), issues };
+}
+
+export { auditHtml, auditFiles, countIssues, checkThresholds };
+export type { HeadlessOptions, HeadlessResult, HeadlessThresholds };
@@ -3,7 +3,7 @@ import resolve from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 import terser from '@rollup/plugin-terser';
 
-export default {
+export default [{
   input: 'AccessibilityValidator.ts',
   output: [
     {
@@ -41,4 +41,27 @@ export default {
       declarationDir: 'dist',
     }),
   ],
-};
+}, {
+  // Headless (Node) entry and CLI; they load the UMD build above into jsdom
+  input: {
+    headless: 'headless.ts',
+    cli: 'cli.ts',
+  },
+  output: {
+    dir: 'dist',
+    format: 'cjs',
+    entryFileNames: '[name].cjs.js',
+    sourcemap: true,
+    banner: (chunk) => (chunk.name === 'cli' ? '#!/usr/bin/env node' : ''),
+    // Helpers shared with the browser build come from its CommonJS file rather than a second copy
+    paths: (id) => (id.endsWith('AccessibilityValidator') ? './accessibility-validator.cjs.js' : id),
+  },
+  external: ['jsdom', 'fs', 'path', 'url', 'util', './AccessibilityValidator'],
+  plugins: [
+    typescript({
+      tsconfig: './tsconfig.json',
+      declaration: true,
+      declarationDir: 'dist',
+    }),
+  ],
+}];
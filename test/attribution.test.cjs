@@ -0,0 +1,51 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { auditHtml } = require('../dist/headless.cjs.js');
+
+function page(body) {
+    return `<!DOCTYPE html><html lang="en"><head><title>Page</title></head><body><main>${body}</main></body></html>`;
+}
+
+// Reports come from the jsdom window, so copy them into this realm's arrays before comparing
+function ruleIds(violations) {
+    return Array.from(violations).flatMap(violation => Array.from(violation.nodes, () => violation.id));
+}
+
+function issuesByWidget(report) {
+    return Array.from(report.widgets, widget => ruleIds(widget.violations));
+}
+
+test('identical widgets each get their own issues', async () => {
+    // Same markup, so the nodes' axe selectors can't tell them apart
+    const card = '<div class="card"><img src="a.png"></div>';
+    const fixed = '<div class="card"><img src="a.png" alt="A"></div>';
+    const { report } = await auditHtml(page(`<section>${card}</section><section>${card}</section><section>${fixed}</section>`), {
+        widgetSelectors: ['.card']
+    });
+    assert.deepEqual(issuesByWidget(report), [['image-alt'], ['image-alt'], []]);
+    assert.equal(report.totals.widgetsWithIssues, 2);
+});
+
+test('nested widgets count an issue on the innermost widget by default', async () => {
+    const html = page('<div class="outer"><div class="inner"><img src="a.png"></div></div>');
+    const { report } = await auditHtml(html, { widgetSelectors: ['.outer', '.inner'] });
+    const outer = report.widgets.find(widget => widget.selector === '.outer');
+    const inner = report.widgets.find(widget => widget.selector === '.inner');
+    assert.equal(outer.violations.length, 0);
+    assert.deepEqual(ruleIds(inner.violations), ['image-alt']);
+});
+
+test('nestedWidgets: all counts an issue on every widget around it', async () => {
+    const html = page('<div class="outer"><div class="inner"><img src="a.png"></div></div>');
+    const { report } = await auditHtml(html, { widgetSelectors: ['.outer', '.inner'], nestedWidgets: 'all' });
+    assert.deepEqual(issuesByWidget(report), [['image-alt'], ['image-alt']]);
+});
+
+test('issues outside every widget are reported as page-level issues', async () => {
+    const { report } = await auditHtml(page('<div class="card"><img src="a.png" alt="A"></div><img src="b.png">'), {
+        widgetSelectors: ['.card']
+    });
+    assert.deepEqual(issuesByWidget(report), [[]]);
+    assert.deepEqual(ruleIds(report.pageIssues), ['image-alt']);
+    assert.equal(report.totals.pageIssues, 1);
+});
@@ -0,0 +1,26 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { withValidator, page } = require('./helpers.cjs');
+
+const CARD = '<div class="card"><img src="a.png"></div>';
+
+test('a superseded run resolves with the superseding run\'s report', () => withValidator(page(CARD), { widgetSelectors: ['.card'] }, async (validator, window) => {
+    const first = validator.recheckAll();
+    window.document.querySelector('img').setAttribute('alt', 'A');
+    const second = validator.recheckAll();
+
+    const [firstReport, secondReport] = await Promise.all([first, second]);
+    assert.equal(firstReport, secondReport);
+    assert.equal(secondReport.totals.nodes, 0);
+}));
+
+test('disabling mid-run cancels it and keeps the previous report', () => withValidator(page(CARD), { widgetSelectors: ['.card'] }, async (validator, window) => {
+    const previous = await validator.recheckAll();
+    assert.equal(previous.totals.nodes, 1);
+
+    window.document.querySelector('img').setAttribute('alt', 'A');
+    const run = validator.recheckAll();
+    validator.disable();
+    assert.equal(await run, previous);
+    assert.equal(validator.getLastReport(), previous);
+}));
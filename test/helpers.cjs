@@ -0,0 +1,54 @@
+const { readFileSync } = require('node:fs');
+const path = require('node:path');
+const { JSDOM } = require('jsdom');
+
+const bundle = readFileSync(path.join(__dirname, '..', 'dist', 'accessibility-validator.umd.js'), 'utf8');
+
+/**
+ * Load a page into jsdom with the browser build, for behaviour auditHtml doesn't expose
+ * (runtime API calls, runs cancelled mid-way). The validator is created once the page is
+ * parsed, so it has started by the time this resolves. The caller closes the window.
+ */
+async function loadValidator(html, config) {
+    const dom = new JSDOM(html, { url: 'http://localhost/', runScripts: 'outside-only', pretendToBeVisual: true });
+    const { window } = dom;
+    if (window.document.readyState === 'loading') {
+        await new Promise(resolve => window.document.addEventListener('DOMContentLoaded', resolve));
+    }
+    window.eval(bundle);
+    const exported = window.AccessibilityValidator;
+    const Validator = 'default' in exported ? exported.default : exported;
+    const validator = new Validator({
+        includeIncomplete: false,
+        renderMode: 'none',
+        activation: 'always',
+        enableMutationObserver: false,
+        enableSummaryPanel: false,
+        toggleShortcut: false,
+        showToggleButton: false,
+        history: false,
+        publishGuard: false,
+        enableDebugLogging: false,
+        ...config
+    });
+    return { window, validator };
+}
+
+/**
+ * Run `fn` with a validator over `html`, then tear both down
+ */
+async function withValidator(html, config, fn) {
+    const { window, validator } = await loadValidator(html, config);
+    try {
+        await fn(validator, window);
+    } finally {
+        validator.destroy();
+        window.close();
+    }
+}
+
+function page(body) {
+    return `<!DOCTYPE html><html lang="en"><head><title>Page</title></head><body><main>${body}</main></body></html>`;
+}
+
+module.exports = { loadValidator, withValidator, page };
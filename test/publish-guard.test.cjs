@@ -0,0 +1,28 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { withValidator, page } = require('./helpers.cjs');
+
+const FAILING = '<div class="card"><img src="a.png"></div>';
+const CLEAN = '<div class="card"><img src="a.png" alt="A"></div>';
+
+test('guardPublish proceeds when the fresh run is clean', () => withValidator(page(CLEAN), { widgetSelectors: ['.card'] }, async validator => {
+    const decision = await validator.guardPublish();
+    assert.equal(decision.proceed, true);
+}));
+
+test('guardPublish holds publishing back when a widget fails its gate', () => withValidator(page(FAILING), { widgetSelectors: ['.card'] }, async validator => {
+    const decision = await validator.guardPublish();
+    assert.equal(decision.proceed, false);
+    assert.equal(decision.report.gate.status, 'fail');
+}));
+
+test('guardPublish holds publishing back when its run is cancelled', () => withValidator(page(CLEAN), { widgetSelectors: ['.card'] }, async (validator, window) => {
+    let blocked = 0;
+    window.document.addEventListener('wa11y:publish-blocked', () => blocked++);
+
+    const guarding = validator.guardPublish();
+    validator.disable();
+    const decision = await guarding;
+    assert.equal(decision.proceed, false);
+    assert.equal(blocked, 1);
+}));
@@ -0,0 +1,68 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { auditHtml } = require('../dist/headless.cjs.js');
+const { withValidator, page } = require('./helpers.cjs');
+
+const CARDS = '<div class="card" id="a"><img src="a.png"></div><div class="card" id="b"><img src="b.png"></div>';
+const BUTTON = '<div class="card" id="c"><button></button></div>';
+
+test('suppressions move matching issues out of the totals', async () => {
+    const { report } = await auditHtml(page(CARDS), {
+        widgetSelectors: ['.card'],
+        suppressions: [{ ruleId: 'image-alt', selector: '#a', reason: 'Decorative' }]
+    });
+    assert.equal(report.totals.nodes, 1);
+    assert.equal(report.totals.suppressed, 1);
+    assert.equal(report.widgets[0].suppressed[0].suppression.reason, 'Decorative');
+    assert.equal(report.widgets[1].violations.length, 1);
+});
+
+test('expired suppressions no longer apply', async () => {
+    const { report } = await auditHtml(page(CARDS), {
+        widgetSelectors: ['.card'],
+        suppressions: [{ ruleId: 'image-alt', reason: 'Fixed by then', expires: '2000-01-01' }]
+    });
+    assert.equal(report.totals.nodes, 2);
+    assert.equal(report.totals.suppressed, 0);
+});
+
+test('fingerprints suppress one issue and survive markup added before it', async () => {
+    const first = await auditHtml(page(CARDS), {
+        widgetSelectors: ['.card'],
+        suppressions: [{ ruleId: 'image-alt', reason: 'Collect fingerprints' }]
+    });
+    const fingerprint = first.report.widgets[1].suppressed[0].fingerprint;
+    assert.notEqual(fingerprint, first.report.widgets[0].suppressed[0].fingerprint);
+
+    const { report } = await auditHtml(page(BUTTON + CARDS), {
+        widgetSelectors: ['.card'],
+        suppressions: [{ fingerprint, reason: 'Accepted' }]
+    });
+    const ids = Array.from(report.widgets, widget => widget.element.id);
+    assert.deepEqual(ids, ['c', 'a', 'b']);
+    assert.equal(report.widgets[1].violations.length, 1);
+    assert.equal(report.widgets[2].violations.length, 0);
+    assert.equal(report.widgets[2].suppressed[0].fingerprint, fingerprint);
+});
+
+test('loadBaseline suppresses baselined issues without persisting them', () => withValidator(page(CARDS), { widgetSelectors: ['.card'] }, async (validator, window) => {
+    await validator.recheckAll();
+    const baseline = validator.createBaseline('Known issue');
+    assert.equal(baseline.suppressions.length, 2);
+
+    await validator.loadBaseline(baseline);
+    let report = await validator.recheckAll();
+    assert.equal(report.totals.nodes, 0);
+    assert.equal(report.totals.suppressed, 2);
+    assert.equal(window.localStorage.getItem('wa11y-suppressions'), null);
+
+    // Each load replaces the previous baseline, so dropped entries stop applying
+    await validator.loadBaseline({ suppressions: baseline.suppressions.slice(1) });
+    report = await validator.recheckAll();
+    assert.equal(report.totals.nodes, 1);
+    assert.equal(report.totals.suppressed, 1);
+}));
+
+test('loadBaseline rejects files without a suppressions list', () => withValidator(page(CARDS), { widgetSelectors: ['.card'] }, async validator => {
+    await assert.rejects(validator.loadBaseline({}), /Invalid baseline/);
+}));
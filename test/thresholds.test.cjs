@@ -0,0 +1,64 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { spawnSync } = require('node:child_process');
+const { mkdtempSync, writeFileSync, rmSync } = require('node:fs');
+const { tmpdir } = require('node:os');
+const path = require('node:path');
+const { auditHtml, checkThresholds, countIssues } = require('../dist/headless.cjs.js');
+
+const CLI = path.join(__dirname, '..', 'dist', 'cli.cjs.js');
+
+// One widget with a critical issue (image-alt) and one page-level issue outside it
+const PAGE = `<!DOCTYPE html><html lang="en"><head><title>Page</title></head><body>
+<main>
+    <div class="card"><img src="a.png"></div>
+    <img src="b.png">
+</main>
+</body></html>`;
+
+const CLEAN = `<!DOCTYPE html><html lang="en"><head><title>Page</title></head><body>
+<main><div class="card"><img src="a.png" alt="A"></div></main>
+</body></html>`;
+
+function runCli(args, files) {
+    const dir = mkdtempSync(path.join(tmpdir(), 'a11y-cli-'));
+    try {
+        Object.entries(files).forEach(([name, html]) => writeFileSync(path.join(dir, name), html));
+        return spawnSync(process.execPath, [CLI, ...args, dir], { encoding: 'utf8', timeout: 60000 });
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+test('countIssues counts widget and page-level issues', async () => {
+    const { report } = await auditHtml(PAGE, { widgetSelectors: ['.card'] });
+    assert.equal(report.totals.nodes, 1);
+    assert.equal(report.totals.pageIssues, 1);
+    assert.equal(countIssues(report), 2);
+    assert.equal(countIssues(report, 'minor', false), 1);
+    assert.equal(countIssues(report, 'critical'), 2);
+});
+
+test('checkThresholds applies maxIssues and ignorePageIssues', async () => {
+    const result = await auditHtml(PAGE, { widgetSelectors: ['.card'] });
+    assert.deepEqual(checkThresholds([result]), { passed: false, issues: 2 });
+    assert.deepEqual(checkThresholds([result], { maxIssues: 2 }), { passed: true, issues: 2 });
+    assert.deepEqual(checkThresholds([result], { maxIssues: 1, ignorePageIssues: true }), { passed: true, issues: 1 });
+});
+
+test('CLI exits 0 when the pages pass', () => {
+    const { status } = runCli(['-s', '.card'], { 'clean.html': CLEAN });
+    assert.equal(status, 0);
+});
+
+test('CLI exits 1 when issues exceed --max-issues', () => {
+    assert.equal(runCli(['-s', '.card'], { 'page.html': PAGE }).status, 1);
+    assert.equal(runCli(['-s', '.card', '--max-issues', '2'], { 'page.html': PAGE }).status, 0);
+    assert.equal(runCli(['-s', '.card', '--max-issues', '1', '--ignore-page-issues'], { 'page.html': PAGE }).status, 0);
+});
+
+test('CLI exits 2 when no widget matches on any page', () => {
+    const { status, stderr } = runCli(['-s', '.missing'], { 'page.html': PAGE });
+    assert.equal(status, 2);
+    assert.match(stderr, /no widgets/i);
+});